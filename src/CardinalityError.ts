@@ -0,0 +1,64 @@
+import { SqlError } from "./SqlError";
+
+/**
+ * A query succeeded, but returned a different number of rows or columns than
+ * the caller asked for.
+ *
+ * These are thrown by the strict query helpers (`one`, `maybeOne`, `oneValue`
+ * and `oneColumn`). Like `SqlError`, they capture the SQL and the parameters
+ * for easy debugging.
+ */
+export abstract class CardinalityError extends SqlError {
+  constructor(args: { sql?: string; params?: unknown[] }) {
+    super(args);
+  }
+
+  /** A short explanation of what was expected and what we got instead. */
+  abstract get reason(): string;
+
+  valueOf(): string {
+    return `SQL Error: ${this.reason}\n${this.describeQuery()}`;
+  }
+}
+
+/** A query that should have returned exactly one row returned none. */
+export class NoRowsError extends CardinalityError {
+  get reason(): string {
+    return "expected exactly one row, but the query returned no rows";
+  }
+}
+
+/** A query that should have returned at most one row returned several. */
+export class TooManyRowsError extends CardinalityError {
+  rowCount: number;
+
+  constructor(args: { sql?: string; params?: unknown[]; rowCount: number }) {
+    super(args);
+    this.rowCount = args.rowCount;
+  }
+
+  get reason(): string {
+    return `expected at most one row, but the query returned ${this.rowCount} rows`;
+  }
+}
+
+/** A query that should have returned a single column returned none. */
+export class NoColumnsError extends CardinalityError {
+  get reason(): string {
+    return "expected exactly one column, but the query returned no columns";
+  }
+}
+
+/** A query that should have returned a single column returned several. */
+export class TooManyColumnsError extends CardinalityError {
+  columnCount: number;
+
+  constructor(args: { sql?: string; params?: unknown[]; columnCount: number }) {
+    super(args);
+    this.columnCount = args.columnCount;
+  }
+
+  get reason(): string {
+    return `expected exactly one column, but the query returned ${this.columnCount} columns`;
+  }
+}
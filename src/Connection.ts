@@ -1,26 +1,43 @@
-import { PoolClient, QueryConfig, QueryResult } from "pg";
-import { sql, SqlLiteralParams, SqlQueryObject } from "selectstar";
+import { PoolClient, QueryConfig, QueryResult, Submittable } from "pg";
+import { sql, SqlLiteralParams, SqlQueryObject, Template } from "selectstar";
+import {
+  NoColumnsError,
+  NoRowsError,
+  TooManyColumnsError,
+  TooManyRowsError,
+} from "./CardinalityError";
+import { AdvisoryLockKey, advisoryLockArgs } from "./advisoryLock";
+import { callHooks, elapsedMs, QueryEvent, QueryHooks } from "./hooks";
+import { InsertManyOptions, insertStatements } from "./insertMany";
+import { InternalClient } from "./internalClient";
+import { isPreparedQuery, queryPrepared } from "./prepared";
+import { QueryCancelledError } from "./QueryCancelledError";
+import { QueryTimeoutError } from "./QueryTimeoutError";
+import {
+  isConnectionFailure,
+  isTransactionConflict,
+  RetryPolicy,
+  withRetry,
+} from "./retry";
+import { isRowValidator, RowValidator, validateRow } from "./RowValidator";
 import { SqlError } from "./SqlError";
-import { RealTransaction, Transaction } from "./Transaction";
+import { createSqlError } from "./sqlStateErrors";
+import {
+  RealTransaction,
+  Transaction,
+  TransactionOptions,
+} from "./Transaction";
 import { TypedQueryStream } from "./TypedQueryStream";
 import type QueryStreamType from "pg-query-stream";
+import type { CopyStreamQuery, CopyToStreamQuery } from "pg-copy-streams";
+import { finished, Readable, Writable } from "stream";
+import { promisify } from "util";
+
+const streamFinished = promisify(finished);
 
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
 interface QueryResultRow {}
 
-/**
- * This is a bit of a shorthand. We don't want to import the QueryStream
- * instance if we don't have to. Instead, we assume that anything that obeys the
- * node-postgres "submittable" interface is a QueryStream object. That doesn't
- * always need to be strictly true, but cases where it is not are outside of
- * our approved use cases.
- *
- * @param value
- */
-function isQueryStream(value: unknown): value is QueryStreamType {
-  return typeof value === "object" && value !== null && "submit" in value;
-}
-
 /**
  * node-postgres can accept a SqlQueryObject which is an object of two
  * properties: text, and values. Text is the parameterized query string and
@@ -37,12 +54,178 @@ function isSqlQueryObject(value: unknown): value is SqlQueryObject {
   );
 }
 
+/**
+ * The most recent query we started on each client.
+ *
+ * node-postgres runs the queries sent to a client one at a time, but it doesn't
+ * tell us which query a notice belongs to. So we wait for our turn before
+ * sending a query, which costs nothing, and lets us attribute notices to the
+ * query which is running when they arrive.
+ */
+const clientQueues = new WeakMap<PoolClient, Promise<unknown>>();
+
+/**
+ * Run `work` once all the work previously passed to `runExclusively` for this
+ * client has finished, successfully or not.
+ *
+ * @param client
+ * @param work
+ */
+function runExclusively<Result>(
+  client: PoolClient,
+  work: () => Promise<Result>
+): Promise<Result> {
+  const previous = clientQueues.get(client) ?? Promise.resolve();
+  const result = previous.then(work, work);
+  clientQueues.set(
+    client,
+    result.catch(() => undefined)
+  );
+  return result;
+}
+
+/**
+ * A query which streams its results (or, for COPY FROM, its input), such as a
+ * QueryStream. Postgres reports errors to it through `handleError`, which
+ * isn't always part of its type declarations.
+ */
+type StreamingQuery = (Readable | Writable) &
+  Submittable & { handleError(err: Error): void };
+
+/** How `_stream` deals with a particular kind of streaming query. */
+interface StreamingQueryHandlers<Stream> {
+  /** Describe a finished stream to `afterQuery` hooks. */
+  result(stream: Stream): { rowCount: number | null; command: string | null };
+  /**
+   * Clean up after a stream which was destroyed before Postgres was done with
+   * it. Throws an `AbortConnectionError` if the client can't be used again.
+   */
+  abandon?(client: PoolClient, reason: string): void;
+}
+
+/**
+ * pg-copy-streams emits errors from Postgres even once the stream has been
+ * destroyed, such as the error caused by abandoning a COPY FROM. Nobody is
+ * listening by then, so drop them.
+ *
+ * @param stream
+ */
+function ignoreErrorsOnceDestroyed<
+  Stream extends CopyStreamQuery | CopyToStreamQuery
+>(stream: Stream): Stream & StreamingQuery {
+  const copyStream = stream as Stream & StreamingQuery;
+  const handleError = copyStream.handleError.bind(copyStream);
+  copyStream.handleError = (err: Error) => {
+    if (!copyStream.destroyed) handleError(err);
+  };
+  return copyStream;
+}
+
+/**
+ * COPY statements are run with the simple query protocol, which doesn't
+ * support query parameters.
+ *
+ * @param query
+ * @param params
+ */
+function toCopyQuery(
+  query: TemplateStringsArray | SqlQueryObject,
+  params: SqlLiteralParams[]
+): SqlQueryObject {
+  const queryObject = toSqlQueryObject(query, params);
+  if (queryObject.values.length > 0) {
+    throw new RangeError("COPY statements can't have query parameters");
+  }
+  return queryObject;
+}
+
+/**
+ * A promise, along with the function which resolves it.
+ */
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+function deferred<T>(): Deferred<T> {
+  let resolve: (value: T) => void = () => undefined;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+/** The number to use in the name of the next cursor opened by `batches`. */
+let nextCursorNumber = 0;
+
+/**
+ * Our query helpers accept either a tagged template literal or a pre-built
+ * SqlQueryObject. Normalize both into a SqlQueryObject.
+ *
+ * @param query
+ * @param params
+ */
+function toSqlQueryObject(
+  query: TemplateStringsArray | SqlQueryObject,
+  params: SqlLiteralParams[]
+): SqlQueryObject {
+  return isSqlQueryObject(query) ? query : sql(query, ...params);
+}
+
+/**
+ * Query helpers which support row validation accept either a validator
+ * followed by a SqlQueryObject, or the usual tagged template literal (or
+ * SqlQueryObject) and its parameters.
+ */
+type ValidatedQueryArgs<Row> =
+  | [RowValidator<Row>, SqlQueryObject]
+  | [TemplateStringsArray | SqlQueryObject, ...SqlLiteralParams[]];
+
+/**
+ * Split the arguments of a query helper which supports row validation into an
+ * optional validator and a SqlQueryObject.
+ *
+ * @param args
+ */
+function parseValidatedQueryArgs<Row>(
+  args: ValidatedQueryArgs<Row>
+): { validator?: RowValidator<Row>; query: SqlQueryObject } {
+  const [first, ...rest] = args;
+  if (isRowValidator(first)) {
+    return {
+      validator: first as RowValidator<Row>,
+      query: rest[0] as SqlQueryObject,
+    };
+  } else {
+    // Spurious cast, but should be entirely safe.
+    return { query: toSqlQueryObject(first, rest as SqlLiteralParams[]) };
+  }
+}
+
+/**
+ * Validate every row returned by `query`, if we have a validator. Otherwise
+ * assume the rows are what the caller says they are.
+ *
+ * @param validator
+ * @param rows
+ * @param query
+ */
+function validateRows<Row>(
+  validator: RowValidator<Row> | undefined,
+  rows: unknown[],
+  query: SqlQueryObject
+): Row[] {
+  if (!validator) return rows as Row[];
+  return rows.map((row, i) => validateRow(validator, row, i, query));
+}
+
 /**
  * An error so bad that we need to drop the database connection completely.
  *
- * This normally happens when transactional rollback fails. This is not actually
- * a subclass of `Error`, but rather a _type_ that any instance of `Error` might
- * or might not belong to.
+ * This normally happens when transactional rollback fails, or when the
+ * connection to Postgres fails. This is not actually a subclass of `Error`,
+ * but rather a _type_ that any instance of `Error` might or might not belong
+ * to.
  */
 type AbortConnectionError = Error & { ABORT_CONNECTION: true };
 
@@ -56,10 +239,109 @@ export function isAbortConnectionError(
   );
 }
 
+/**
+ * Release a session advisory lock taken on `conn`. If that fails, closing the
+ * connection is the only way left to release it, so throw an
+ * AbortConnectionError, mentioning the error which got us here if there was
+ * one.
+ *
+ * @param conn
+ * @param args
+ * @param err
+ */
+async function unlockOrAbort(
+  conn: Connection,
+  args: Template,
+  err?: unknown
+): Promise<void> {
+  try {
+    await conn.query`select pg_advisory_unlock(${args})`;
+  } catch (unlockErr) {
+    const errVal = err instanceof Error ? err.message + "\n" + err.stack : err;
+    const unlockErrVal =
+      unlockErr instanceof Error
+        ? unlockErr.message + "\n" + unlockErr.stack
+        : unlockErr;
+    const bigErr = new Error(
+      "Failed to release advisory lock\n" +
+        (err === undefined ? "" : errVal + "\n\n") +
+        unlockErrVal
+    );
+    (bigErr as AbortConnectionError).ABORT_CONNECTION = true;
+    throw bigErr;
+  }
+}
+
+/**
+ * A block of work to run inside a transaction. `attempt` counts up from 1 each
+ * time the transaction is retried.
+ */
+export type TransactionBlock<Result> = (
+  conn: Connection,
+  attempt: number
+) => Promise<Result>;
+
 export type WithPoolClient = <Result>(
   work: (client: PoolClient) => Promise<Result>
 ) => Promise<Result>;
 
+/**
+ * Services provided by a SimplePostgres instance, which are shared with every
+ * Connection derived from it.
+ */
+export interface ConnectionContext {
+  /**
+   * Ask Postgres to cancel the query currently running on this client's
+   * backend. This must not need a connection from the pool, because the pool
+   * may be exhausted.
+   */
+  cancelBackend?: (client: PoolClient) => Promise<void>;
+  /** Hooks which observe every query. See `SimplePostgres.use`. */
+  hooks?: QueryHooks[];
+  /**
+   * Runs the read-only helpers (`rows`, `row`, `value`, `column` and
+   * `stream`) on a read replica. See `ReplicaOptions.readFromReplicas`.
+   * Connections bound to a client, inside `transaction` and `connection`,
+   * don't have this, so they stay on the primary.
+   */
+  withReplicaClient?: WithPoolClient;
+}
+
+/** Options which control how `batches` fetches rows. */
+export interface BatchOptions {
+  /** The most rows to fetch at a time. Defaults to 1000. */
+  size?: number;
+}
+
+/** Options which apply to every query run through a Connection. */
+export interface QueryOptions {
+  /**
+   * Once this signal is aborted, running queries are cancelled and new ones
+   * are refused. Either way, they reject with a `QueryCancelledError`.
+   */
+  signal?: AbortSignal;
+  /**
+   * Cancel queries which run for longer than this many milliseconds, and
+   * reject them with a `QueryTimeoutError`. Unlike the pool's
+   * `statement_timeout`, this doesn't change any settings on the connection.
+   * It doesn't apply to streams, which run at the pace of their consumer.
+   */
+  timeoutMs?: number;
+  /**
+   * Called with each notice (including warnings) raised by a query, such as
+   * the output of `RAISE NOTICE` in a stored procedure, as it arrives.
+   */
+  onNotice?: (notice: Error, query: QueryEvent) => void;
+  /**
+   * Retry `rows`, `row`, `value` and `column` queries which fail because the
+   * connection to Postgres failed, such as while Postgres restarts or fails
+   * over. Each attempt runs on a new connection. These helpers are assumed to
+   * be safe to run again, so this doesn't apply inside `transaction` or
+   * `connection`, or to other queries.
+   */
+  connectionRetry?: RetryPolicy;
+}
+
 /**
  * A Connection is the base unit of interacting with a postgres database within
  * simple-postgres.
@@ -73,52 +355,250 @@ export type WithPoolClient = <Result>(
 export class Connection {
   private readonly withClient: WithPoolClient;
   private readonly tx: Transaction | null;
+  protected readonly context: ConnectionContext;
+  private readonly options: QueryOptions;
 
-  constructor(withClient: WithPoolClient, tx?: Transaction) {
+  constructor(
+    withClient: WithPoolClient,
+    tx?: Transaction,
+    context: ConnectionContext = {},
+    options: QueryOptions = {}
+  ) {
     this.withClient = withClient;
     this.tx = tx ?? null;
+    this.context = context;
+    this.options = options;
   }
 
-  // Our private place where we interact with the database. All queries go
-  // through this method. It does some work to make error handling better.
-  private async _query<Row>(qs: QueryStreamType): Promise<QueryStreamType>;
-  private async _query<Row>(config: QueryConfig): Promise<QueryResult<Row>>;
-  private async _query<Row>(
-    config: QueryConfig | QueryStreamType
-  ): Promise<QueryResult<Row> | QueryStreamType> {
-    return this.withClient(async (client) => {
-      const notices: Error[] = [];
-
-      // Note that if you send multiple queries to the same client, they may both
-      // receive a notice.
-      //
-      // TODO: should queries to clients be queued (perhaps only in dev mode) so
-      //       that they are associated with the right query? Potentially a huge
-      //       performance cost for some clarity gains.
-      //
-      function onNotice(notice: Error) {
-        notices.push(notice);
-      }
+  // Create a connection which runs queries on a single, already checked out
+  // client, while keeping our context and options.
+  private _bind(client: PoolClient, tx?: Transaction): Connection {
+    return new Connection(
+      (work) => work(client),
+      tx,
+      { ...this.context, withReplicaClient: undefined },
+      { ...this.options, connectionRetry: undefined }
+    );
+  }
 
-      client.on("notice", onNotice);
-      try {
-        if (isQueryStream(config)) {
-          return await client.query(config);
-        } else {
-          return await client.query<Row>(config);
+  // The connection to run read-only helpers on: a replica, if we send reads
+  // to replicas, and otherwise ourselves.
+  private _reader(): Connection {
+    const { withReplicaClient } = this.context;
+    if (!withReplicaClient) return this;
+    return new Connection(
+      withReplicaClient,
+      undefined,
+      { ...this.context, withReplicaClient: undefined },
+      this.options
+    );
+  }
+
+  // Run a read-only helper, retrying it on a new connection if the
+  // connection fails and we have a `connectionRetry` policy.
+  private async _retryingRead<Result>(
+    read: () => Promise<Result>
+  ): Promise<Result> {
+    const { connectionRetry } = this.options;
+    if (!connectionRetry) return read();
+    return withRetry(connectionRetry, isConnectionFailure, read);
+  }
+
+  // Our private place where we interact with the database. All queries,
+  // except streams (see `_stream`), go through this method. It does some work
+  // to make error handling better.
+  private async _query<Row>(config: QueryConfig): Promise<QueryResult<Row>> {
+    const { signal, timeoutMs, onNotice: noticeCallback } = this.options;
+    const hooks = this.context.hooks ?? [];
+    const requested = process.hrtime.bigint();
+
+    return this._withConnectedClient(config, (client) =>
+      runExclusively(client, async () => {
+        const { text, values } = config;
+        if (signal?.aborted) {
+          throw new QueryCancelledError({ sql: text, params: values });
         }
-      } catch (err) {
-        const { text, values } = isQueryStream(config) ? config.cursor : config;
-        throw new SqlError({
+
+        const event: QueryEvent = {
           sql: text,
-          params: values,
-          pgError: err,
-          notices: notices,
+          params: values ?? [],
+          inTransaction: this.tx !== null,
+          waitMs: elapsedMs(requested),
+        };
+        callHooks(hooks, "beforeQuery", event);
+        const start = process.hrtime.bigint();
+
+        const notices: Error[] = [];
+
+        // We run one query at a time on each client, so any notice we receive
+        // now belongs to this query.
+        function onNotice(notice: Error) {
+          notices.push(notice);
+          noticeCallback?.(notice, event);
+        }
+
+        const { cancelBackend } = this.context;
+        let cancelling: Promise<void> | undefined;
+        function cancel() {
+          // If the cancel request fails, the query simply runs to completion.
+          cancelling = cancelBackend?.(client).catch(() => undefined);
+        }
+
+        let timedOut = false;
+        let timer: NodeJS.Timeout | undefined;
+        signal?.addEventListener("abort", cancel);
+        if (timeoutMs != null) {
+          timer = setTimeout(() => {
+            timedOut = true;
+            cancel();
+          }, timeoutMs);
+        }
+
+        client.on("notice", onNotice);
+        try {
+          const result = isPreparedQuery(config)
+            ? await queryPrepared<Row>(client, config, this.tx !== null)
+            : await client.query<Row>(config);
+          const durationMs = elapsedMs(start);
+          const { rowCount, command } = result;
+          callHooks(hooks, "afterQuery", {
+            ...event,
+            durationMs,
+            rowCount,
+            command,
+            notices,
+          });
+          return result;
+        } catch (err) {
+          const args = { sql: text, params: values, pgError: err, notices };
+          const error = timedOut
+            ? new QueryTimeoutError({ ...args, timeoutMs })
+            : signal?.aborted
+            ? new QueryCancelledError(args)
+            : createSqlError(args);
+          if (isConnectionFailure(error)) {
+            // Don't return a client with a broken connection to the pool.
+            (error as SqlError & AbortConnectionError).ABORT_CONNECTION = true;
+          }
+          const durationMs = elapsedMs(start);
+          callHooks(hooks, "onError", { ...event, durationMs, error });
+          throw error;
+        } finally {
+          client.removeListener("notice", onNotice);
+          signal?.removeEventListener("abort", cancel);
+          if (timer) clearTimeout(timer);
+          // The cancel request may land after the query has finished anyway,
+          // so wait for it before the client can run another query.
+          if (cancelling) await cancelling;
+        }
+      })
+    );
+  }
+
+  // Like `withClient`, but report failing to connect as an error from the
+  // query, so that it can be retried like one.
+  private async _withConnectedClient<Result>(
+    config: QueryConfig,
+    work: (client: PoolClient) => Promise<Result>
+  ): Promise<Result> {
+    let connected = false;
+    try {
+      return await this.withClient((client) => {
+        connected = true;
+        return work(client);
+      });
+    } catch (err) {
+      if (connected || !(err instanceof Error)) throw err;
+      const { text, values } = config;
+      const error = createSqlError({ sql: text, params: values, pgError: err });
+      throw isConnectionFailure(error) ? error : err;
+    }
+  }
+
+  /**
+   * Given a query, return a function which takes `BatchOptions` and returns
+   * an async iterable of arrays of rows. The rows are fetched a batch at a
+   * time from a cursor, so unlike `stream`, this doesn't need
+   * pg-query-stream.
+   *
+   * ```ts
+   * for await (const users of db.batches<User>`SELECT * FROM users`({ size: 500 })) {
+   *   await backfill(users);
+   * }
+   * ```
+   *
+   * The cursor is opened in a transaction (or a savepoint, inside a
+   * transaction), which holds a connection until the loop completes, throws
+   * or is broken out of.
+   *
+   * @param query
+   */
+  batches<Row extends QueryResultRow = any>(
+    query: SqlQueryObject
+  ): (options?: BatchOptions) => AsyncIterable<Row[]>;
+  batches<Row extends QueryResultRow = any>(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): (options?: BatchOptions) => AsyncIterable<Row[]>;
+  batches<Row extends QueryResultRow = any>(
+    query: TemplateStringsArray | SqlQueryObject,
+    ...params: SqlLiteralParams[]
+  ): (options?: BatchOptions) => AsyncIterable<Row[]> {
+    const queryObject = toSqlQueryObject(query, params);
+    return (options = {}) => {
+      const { size = 1000 } = options;
+      if (!Number.isInteger(size) || size < 1) {
+        throw new RangeError(`Batch size must be a positive integer: ${size}`);
+      }
+      return this._batches<Row>(queryObject, size);
+    };
+  }
+
+  // Fetch the rows of a query from a cursor, `size` rows at a time.
+  private async *_batches<Row>(
+    query: SqlQueryObject,
+    size: number
+  ): AsyncGenerator<Row[]> {
+    const cursor = `batches_${nextCursorNumber++}`;
+
+    // `transaction` runs its block to completion, so we run it alongside our
+    // caller's loop. It hands over each batch, and then waits for our caller
+    // to ask for another one (or to stop) before fetching it.
+    let nextBatch = deferred<Row[] | null>();
+    let wantMore = deferred<boolean>();
+    const done = this.transaction(async (conn) => {
+      await conn.query({
+        text: `declare ${cursor} no scroll cursor for ${query.text}`,
+        values: query.values,
+      });
+      let wanted = true;
+      while (wanted) {
+        const rows = await conn.rows<Row>({
+          text: `fetch forward ${size} from ${cursor}`,
+          values: [],
         });
-      } finally {
-        client.removeListener("notice", onNotice);
+        if (rows.length === 0) break;
+        nextBatch.resolve(rows);
+        wanted = await wantMore.promise;
       }
-    });
+      await conn.query({ text: `close ${cursor}`, values: [] });
+    }).finally(() => nextBatch.resolve(null));
+
+    try {
+      for (;;) {
+        const batch = await nextBatch.promise;
+        if (batch === null) break;
+        nextBatch = deferred();
+        yield batch;
+
+        const current = wantMore;
+        wantMore = deferred();
+        current.resolve(true);
+      }
+    } finally {
+      wantMore.resolve(false);
+      await done;
+    }
   }
 
   /**
@@ -139,9 +619,11 @@ export class Connection {
     ...params: SqlLiteralParams[]
   ): Promise<Column[]> {
     // Spurious cast, but should be entirely safe.
-    const result = await this.query<Record<string, Column>>(
-      query as TemplateStringsArray,
-      ...params
+    const result = await this._retryingRead(() =>
+      this._reader().query<Record<string, Column>>(
+        query as TemplateStringsArray,
+        ...params
+      )
     );
     if (result.rows.length === 0) {
       return [];
@@ -158,12 +640,285 @@ export class Connection {
   async connection<Result>(
     block: (conn: Connection) => Promise<Result>
   ): Promise<Result> {
-    return this.withClient((client) => {
-      const conn = new Connection((work) => work(client));
-      return block(conn);
+    return this.withClient((client) => block(this._bind(client)));
+  }
+
+  /**
+   * Given a `COPY ... FROM STDIN` statement, return a writable stream which
+   * sends everything written to it to Postgres. This uses the
+   * pg-copy-streams library under the hood and that dependency must be
+   * installed for this method to work.
+   *
+   * The connection is held until the stream finishes, which happens once
+   * Postgres has loaded all the data. If Postgres rejects the data, the
+   * stream emits a `SqlError`. If the stream is destroyed first, the COPY is
+   * abandoned and nothing is loaded.
+   *
+   * COPY statements can't have query parameters.
+   *
+   * @param query
+   */
+  async copyFrom(query: SqlQueryObject): Promise<Writable>;
+  async copyFrom(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Writable>;
+  async copyFrom(
+    query: TemplateStringsArray | SqlQueryObject,
+    ...params: SqlLiteralParams[]
+  ): Promise<Writable> {
+    // Doing a dynamic import here because pg-copy-streams is optional.
+    //
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { from } = require("pg-copy-streams");
+
+    const copyQuery = toCopyQuery(query, params);
+    const stream: CopyStreamQuery = from(copyQuery.text);
+    return this._stream(ignoreErrorsOnceDestroyed(stream), copyQuery, {
+      result: ({ rowCount }) => ({ rowCount, command: "COPY" }),
+      abandon(client, reason) {
+        // Postgres is still waiting for data, so tell it the COPY failed.
+        // Everything sent so far is thrown away.
+        (client as InternalClient).connection.sendCopyFail(reason);
+      },
     });
   }
 
+  /**
+   * Given a `COPY ... TO STDOUT` statement, return a readable stream of the
+   * data Postgres sends. This uses the pg-copy-streams library under the hood
+   * and that dependency must be installed for this method to work.
+   *
+   * The connection is held until the stream ends, so the stream must be read
+   * to the end or destroyed. Destroying it early closes the connection,
+   * because there is no other way to stop Postgres sending the data.
+   *
+   * COPY statements can't have query parameters.
+   *
+   * @param query
+   */
+  async copyTo(query: SqlQueryObject): Promise<Readable>;
+  async copyTo(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Readable>;
+  async copyTo(
+    query: TemplateStringsArray | SqlQueryObject,
+    ...params: SqlLiteralParams[]
+  ): Promise<Readable> {
+    // Doing a dynamic import here because pg-copy-streams is optional.
+    //
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { to } = require("pg-copy-streams");
+
+    const copyQuery = toCopyQuery(query, params);
+    const stream: CopyToStreamQuery = to(copyQuery.text);
+    return this._stream(ignoreErrorsOnceDestroyed(stream), copyQuery, {
+      result: ({ rowCount }) => ({ rowCount, command: "COPY" }),
+      abandon(client, reason) {
+        // Postgres will keep sending us data which nobody is going to read,
+        // so the connection can't be used for anything else.
+        (client as InternalClient).connection.stream.destroy();
+        const err = new Error(
+          "COPY TO stream was destroyed before it ended\n" + reason
+        );
+        (err as AbortConnectionError).ABORT_CONNECTION = true;
+        throw err;
+      },
+    });
+  }
+
+  /**
+   * Insert many rows into `table`, using as few statements as possible. Each
+   * statement inserts one chunk of rows, sized to stay under Postgres's limit
+   * on query parameters. Unless told otherwise, all the chunks are inserted in
+   * one transaction.
+   *
+   * Returns the rows asked for by `returning`, in the order they were
+   * inserted.
+   *
+   * ```ts
+   * const ids = await db.insertMany('users', users, { returning: ['id'] });
+   * ```
+   *
+   * @param table A table name, which may be qualified with a schema name.
+   * @param rows
+   * @param options
+   */
+  async insertMany<Row extends QueryResultRow = any>(
+    table: string,
+    rows: QueryResultRow[],
+    options: InsertManyOptions = {}
+  ): Promise<Row[]> {
+    const statements = insertStatements(table, rows, options);
+    const insertAll = async (conn: Connection) => {
+      let inserted: Row[] = [];
+      for (const statement of statements) {
+        inserted = inserted.concat(await conn.rows<Row>`${statement}`);
+      }
+      return inserted;
+    };
+
+    if (statements.length > 1 && options.transaction !== false) {
+      return this.transaction(insertAll);
+    } else {
+      return insertAll(this);
+    }
+  }
+
+  /**
+   * Given a query that returns at most one row, return a promise wrapping that
+   * row, or `undefined` if there was no row. Unlike `row`, this throws a
+   * `TooManyRowsError` if the query returns more than one row.
+   *
+   * If a validator is passed before the query, the row is checked with it.
+   *
+   * @param query
+   */
+  async maybeOne<Row extends QueryResultRow = any>(
+    validator: RowValidator<Row>,
+    query: SqlQueryObject
+  ): Promise<Row | undefined>;
+  async maybeOne<Row extends QueryResultRow = any>(
+    query: SqlQueryObject
+  ): Promise<Row | undefined>;
+  async maybeOne<Row extends QueryResultRow = any>(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Row | undefined>;
+  async maybeOne<Row extends QueryResultRow = any>(
+    ...args: ValidatedQueryArgs<Row>
+  ): Promise<Row | undefined> {
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const result = await this.query(query);
+    if (result.rows.length > 1) {
+      throw new TooManyRowsError({
+        sql: query.text,
+        params: query.values,
+        rowCount: result.rows.length,
+      });
+    }
+    return validateRows(validator, result.rows, query)[0];
+  }
+
+  /**
+   * Send a notification to everybody listening on `channel`, for example with
+   * `SimplePostgres.listen`. The payload is encoded as JSON. Inside a
+   * transaction, the notification is only sent if the transaction commits.
+   *
+   * @param channel
+   * @param payload
+   */
+  async notify<Payload>(channel: string, payload?: Payload): Promise<void> {
+    const json = payload === undefined ? null : JSON.stringify(payload);
+    await this.query`select pg_notify(${channel}, ${json})`;
+  }
+
+  /**
+   * Given a query that returns exactly one row, return a promise wrapping that
+   * row. Unlike `row`, this throws a `NoRowsError` if the query returns no
+   * rows, and a `TooManyRowsError` if it returns more than one.
+   *
+   * If a validator is passed before the query, the row is checked with it.
+   *
+   * @param query
+   */
+  async one<Row extends QueryResultRow = any>(
+    validator: RowValidator<Row>,
+    query: SqlQueryObject
+  ): Promise<Row>;
+  async one<Row extends QueryResultRow = any>(
+    query: SqlQueryObject
+  ): Promise<Row>;
+  async one<Row extends QueryResultRow = any>(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Row>;
+  async one<Row extends QueryResultRow = any>(
+    ...args: ValidatedQueryArgs<Row>
+  ): Promise<Row> {
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const result = await this.query(query);
+    if (result.rows.length === 0) {
+      throw new NoRowsError({ sql: query.text, params: query.values });
+    } else if (result.rows.length > 1) {
+      throw new TooManyRowsError({
+        sql: query.text,
+        params: query.values,
+        rowCount: result.rows.length,
+      });
+    }
+    return validateRows(validator, result.rows, query)[0];
+  }
+
+  /**
+   * Given a query that returns a single column, return a promise wrapping an
+   * array of that column. Unlike `column`, this throws a `NoColumnsError` or
+   * `TooManyColumnsError` if the query doesn't return exactly one column.
+   *
+   * @param query
+   */
+  async oneColumn<Column>(query: SqlQueryObject): Promise<Column[]>;
+  async oneColumn<Column>(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Column[]>;
+  async oneColumn<Column>(
+    query: TemplateStringsArray | SqlQueryObject,
+    ...params: SqlLiteralParams[]
+  ): Promise<Column[]> {
+    const queryObject = toSqlQueryObject(query, params);
+    const result = await this.query<Record<string, Column>>(queryObject);
+    if (result.fields.length === 0) {
+      throw new NoColumnsError({
+        sql: queryObject.text,
+        params: queryObject.values,
+      });
+    } else if (result.fields.length > 1) {
+      throw new TooManyColumnsError({
+        sql: queryObject.text,
+        params: queryObject.values,
+        columnCount: result.fields.length,
+      });
+    }
+    const col = result.fields[0].name;
+    return result.rows.map((row) => row[col]);
+  }
+
+  /**
+   * Given a query that returns exactly one row with exactly one column, return
+   * a promise wrapping that single value. Unlike `value`, this throws a
+   * `NoRowsError`, `TooManyRowsError`, `NoColumnsError` or
+   * `TooManyColumnsError` if the result has any other shape.
+   *
+   * If a validator is passed before the query, the value is checked with it.
+   *
+   * @param query
+   */
+  async oneValue<Value>(
+    validator: RowValidator<Value>,
+    query: SqlQueryObject
+  ): Promise<Value>;
+  async oneValue<Value>(query: SqlQueryObject): Promise<Value>;
+  async oneValue<Value>(
+    query: TemplateStringsArray,
+    ...params: SqlLiteralParams[]
+  ): Promise<Value>;
+  async oneValue<Value>(...args: ValidatedQueryArgs<Value>): Promise<Value> {
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const values = await this.oneColumn<Value>(query);
+    if (values.length === 0) {
+      throw new NoRowsError({ sql: query.text, params: query.values });
+    } else if (values.length > 1) {
+      throw new TooManyRowsError({
+        sql: query.text,
+        params: query.values,
+        rowCount: values.length,
+      });
+    }
+    return validateRows(validator, values, query)[0];
+  }
+
   /**
    * Run a sql query and return the raw result from Postgres
    *
@@ -180,11 +935,7 @@ export class Connection {
     query: TemplateStringsArray | SqlQueryObject,
     ...params: SqlLiteralParams[]
   ): Promise<QueryResult<Row>> {
-    if (isSqlQueryObject(query)) {
-      return this._query<Row>(query as SqlQueryObject);
-    } else {
-      return this._query<Row>(sql(query, ...params));
-    }
+    return this._query<Row>(toSqlQueryObject(query, params));
   }
 
   /**
@@ -193,8 +944,14 @@ export class Connection {
    * returned, so it is possible to over-fetch data and receive inconsistent
    * results.
    *
+   * If a validator is passed before the query, the row is checked with it.
+   *
    * @param query
    */
+  async row<Row extends QueryResultRow = any>(
+    validator: RowValidator<Row>,
+    query: SqlQueryObject
+  ): Promise<Row | undefined>;
   async row<Row extends QueryResultRow = any>(
     query: SqlQueryObject
   ): Promise<Row | undefined>;
@@ -203,15 +960,11 @@ export class Connection {
     ...params: SqlLiteralParams[]
   ): Promise<Row | undefined>;
   async row<Row extends QueryResultRow = any>(
-    query: TemplateStringsArray | SqlQueryObject,
-    ...params: SqlLiteralParams[] | []
+    ...args: ValidatedQueryArgs<Row>
   ): Promise<Row | undefined> {
-    // Spurious cast, but should be entirely safe.
-    const result = await this.query<Row>(
-      query as TemplateStringsArray,
-      ...params
-    );
-    return result.rows[0];
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const result = await this._retryingRead(() => this._reader().query(query));
+    return validateRows(validator, result.rows.slice(0, 1), query)[0];
   }
 
   /**
@@ -219,8 +972,17 @@ export class Connection {
    * the values. In contrast to `.query`, which returns the raw Postgres sql
    * result object, this just returns the row values.
    *
+   * If a validator is passed before the query, every row is checked with it.
+   * For example, with zod:
+   *
+   *     const users = await db.rows(User, sql`SELECT * FROM users`);
+   *
    * @param query
    */
+  async rows<Row extends QueryResultRow = any>(
+    validator: RowValidator<Row>,
+    query: SqlQueryObject
+  ): Promise<Row[]>;
   async rows<Row extends QueryResultRow = any>(
     query: SqlQueryObject
   ): Promise<Row[]>;
@@ -229,15 +991,11 @@ export class Connection {
     ...params: SqlLiteralParams[]
   ): Promise<Row[]>;
   async rows<Row extends QueryResultRow = any>(
-    query: TemplateStringsArray | SqlQueryObject,
-    ...params: SqlLiteralParams[]
+    ...args: ValidatedQueryArgs<Row>
   ): Promise<Row[]> {
-    // Spurious cast, but should be entirely safe.
-    const result = await this.query<Row>(
-      query as TemplateStringsArray,
-      ...params
-    );
-    return result.rows;
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const result = await this._retryingRead(() => this._reader().query(query));
+    return validateRows(validator, result.rows, query);
   }
 
   /**
@@ -249,8 +1007,21 @@ export class Connection {
    * The returned stream is a NodeJS ReadableStream, so obeys the AsyncIterator
    * contract, allowing you to use `for await (const row of queryStream)`
    *
+   * The connection is held until the stream ends, fails or is destroyed (for
+   * example by breaking out of a `for await` loop), and destroying the stream
+   * closes the query on the server. Errors from Postgres are emitted by the
+   * stream as a `SqlError`.
+   *
+   * If a validator is passed before the query, each row is checked with it as
+   * it is emitted, and the stream is destroyed with a `RowValidationError` at
+   * the first bad row.
+   *
    * @param query
    */
+  async stream<Row extends QueryResultRow = any>(
+    validator: RowValidator<Row>,
+    query: SqlQueryObject
+  ): Promise<TypedQueryStream<Row>>;
   async stream<Row extends QueryResultRow = any>(
     query: SqlQueryObject
   ): Promise<TypedQueryStream<Row>>;
@@ -259,8 +1030,7 @@ export class Connection {
     ...params: SqlLiteralParams[]
   ): Promise<TypedQueryStream<Row>>;
   async stream<Row extends QueryResultRow = any>(
-    query: TemplateStringsArray | SqlQueryObject,
-    ...params: SqlLiteralParams[]
+    ...args: ValidatedQueryArgs<Row>
   ): Promise<TypedQueryStream<Row>> {
     // Doing a dynamic import here because pg-query-stream is optional. Don't
     // import it if we aren't using query streaming.
@@ -268,17 +1038,156 @@ export class Connection {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const QueryStream = require("pg-query-stream");
 
-    const { text, values } = isSqlQueryObject(query)
-      ? query
-      : sql(query, ...params);
-    const qs: QueryStreamType = new QueryStream(text, values);
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const qs: QueryStreamType = new QueryStream(query.text, query.values);
 
-    await this._query(qs);
+    if (validator) {
+      // pg-query-stream pushes rows straight from the cursor, so intercept
+      // them on their way into the stream's buffer.
+      const push = qs.push.bind(qs);
+      let rowIndex = 0;
+      qs.push = (row: unknown) => {
+        if (row === null) return push(row);
+        if (qs.destroyed) return false;
+        try {
+          return push(validateRow(validator, row, rowIndex++, query));
+        } catch (err) {
+          qs.destroy(err);
+          return false;
+        }
+      };
+    }
+
+    await this._reader()._stream(
+      qs as QueryStreamType & StreamingQuery,
+      query,
+      {
+        result: ({ _result }) => ({
+          rowCount: _result?.rowCount ?? null,
+          command: _result?.command ?? null,
+        }),
+      }
+    );
 
     // Cast to our subtype of query stream that supports generics:
     return qs as TypedQueryStream<Row>;
   }
 
+  // Run a streaming query, and hand its stream to our caller as soon as it
+  // has been sent. Unlike other queries, we keep the client until the stream
+  // is done with it, so nothing else can use the client in the meantime, and
+  // only then report the query to our hooks.
+  private _stream<Stream extends StreamingQuery>(
+    stream: Stream,
+    query: SqlQueryObject,
+    handlers: StreamingQueryHandlers<Stream>
+  ): Promise<Stream> {
+    const { text, values } = query;
+    const { signal, onNotice: noticeCallback } = this.options;
+    const hooks = this.context.hooks ?? [];
+    const requested = process.hrtime.bigint();
+    const notices: Error[] = [];
+
+    // Postgres reports errors straight to the stream, so wrap them on their
+    // way through.
+    let failedInPostgres = false;
+    const handleError = stream.handleError.bind(stream);
+    stream.handleError = (err: Error) => {
+      failedInPostgres = true;
+      handleError(
+        createSqlError({ sql: text, params: values, pgError: err, notices })
+      );
+    };
+
+    // Streams are cancelled by destroying them, once our caller has them.
+    let submitted = false;
+    const onAbort = () => {
+      if (submitted) {
+        stream.destroy(
+          new QueryCancelledError({ sql: text, params: values, started: true })
+        );
+      }
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    return new Promise<Stream>((resolve, reject) => {
+      this.withClient((client) =>
+        runExclusively(client, async () => {
+          if (signal?.aborted) {
+            throw new QueryCancelledError({ sql: text, params: values });
+          }
+
+          const event: QueryEvent = {
+            sql: text,
+            params: values,
+            inTransaction: this.tx !== null,
+            waitMs: elapsedMs(requested),
+          };
+          callHooks(hooks, "beforeQuery", event);
+          const start = process.hrtime.bigint();
+
+          // Like `_query`, we hold the client until the stream is done, so
+          // any notice we receive now belongs to this stream.
+          function onNotice(notice: Error) {
+            notices.push(notice);
+            noticeCallback?.(notice, event);
+          }
+
+          client.on("notice", onNotice);
+          client.query(stream);
+          submitted = true;
+          resolve(stream);
+
+          // A stream destroyed without an error, for example by breaking out
+          // of a `for await` loop, closes prematurely. That's not a failure.
+          let ended = true;
+          let streamError: unknown;
+          try {
+            await streamFinished(stream);
+          } catch (err) {
+            ended = false;
+            if (err.code !== "ERR_STREAM_PREMATURE_CLOSE") streamError = err;
+          } finally {
+            client.removeListener("notice", onNotice);
+          }
+
+          const durationMs = elapsedMs(start);
+          if (streamError !== undefined) {
+            const error =
+              streamError instanceof SqlError
+                ? streamError
+                : createSqlError({
+                    sql: text,
+                    params: values,
+                    pgError: streamError as Error,
+                    notices,
+                  });
+            callHooks(hooks, "onError", { ...event, durationMs, error });
+          } else {
+            const { rowCount, command } = handlers.result(stream);
+            callHooks(hooks, "afterQuery", {
+              ...event,
+              durationMs,
+              rowCount,
+              command,
+              notices,
+            });
+          }
+
+          if (!ended && !failedInPostgres) {
+            const reason =
+              streamError instanceof Error
+                ? streamError.message
+                : "The stream was destroyed";
+            handlers.abandon?.(client, reason);
+          }
+        })
+      )
+        .catch(reject)
+        .finally(() => signal?.removeEventListener("abort", onAbort));
+    });
+  }
+
   /**
    * Start a transaction on the current connection and then evaluate the block
    * of work passed to this function. If the block of work returns successfully,
@@ -288,21 +1197,57 @@ export class Connection {
    * For subordinate transactions--transactions within transactions--savepoints
    * are used instead.
    *
+   * Top-level transactions may be passed options to set the isolation level,
+   * or to make them read only or deferrable. These options can't be applied
+   * to savepoints, so passing them to a subordinate transaction is an error.
+   *
+   * Top-level transactions may also be retried when they fail because of a
+   * serialization failure or a deadlock. Each attempt runs the whole block
+   * again in a brand new transaction, and the block receives the attempt
+   * number as its second argument. Savepoints can't be retried on their own.
+   *
+   * @param options
    * @param block
    */
-  transaction<Result>(
-    block: (conn: Connection) => Promise<Result>
+  async transaction<Result>(block: TransactionBlock<Result>): Promise<Result>;
+  async transaction<Result>(
+    options: TransactionOptions,
+    block: TransactionBlock<Result>
+  ): Promise<Result>;
+  async transaction<Result>(
+    optionsOrBlock: TransactionOptions | TransactionBlock<Result>,
+    maybeBlock?: TransactionBlock<Result>
   ): Promise<Result> {
-    const tx = this.tx?.newChildTransaction() ?? new RealTransaction();
+    const [options, block] =
+      typeof optionsOrBlock === "function"
+        ? [{}, optionsOrBlock]
+        : [optionsOrBlock, maybeBlock as TransactionBlock<Result>];
+
+    if (this.tx) {
+      return this._transaction(this.tx.newChildTransaction(options), block, 1);
+    } else if (options.retry) {
+      return withRetry(options.retry, isTransactionConflict, (attempt) =>
+        this._transaction(new RealTransaction(options), block, attempt)
+      );
+    } else {
+      return this._transaction(new RealTransaction(options), block, 1);
+    }
+  }
 
+  // Run a block of work inside a single attempt at a transaction.
+  private async _transaction<Result>(
+    tx: Transaction,
+    block: TransactionBlock<Result>,
+    attempt: number
+  ): Promise<Result> {
     return this.withClient(async (client) => {
-      const conn = new Connection((work) => work(client), tx);
+      const conn = this._bind(client, tx);
       let inTransaction = false;
 
       try {
         await conn.query`${tx.beginStatement()}`;
         inTransaction = true;
-        const result = await block(conn);
+        const result = await block(conn, attempt);
         await conn.query`${tx.commitStatement()}`;
 
         return result;
@@ -332,28 +1277,127 @@ export class Connection {
     });
   }
 
+  /**
+   * Like `withAdvisoryLock`, but if another session holds the lock, resolve to
+   * `undefined` straight away without running the block of work.
+   *
+   * @param key
+   * @param block
+   */
+  async tryWithAdvisoryLock<Result>(
+    key: AdvisoryLockKey,
+    block: (conn: Connection) => Promise<Result>
+  ): Promise<Result | undefined> {
+    return this._withAdvisoryLock(key, false, block);
+  }
+
   /**
    * Given a query that returns a single row with a single column, return a
    * promise wrapping that single value result. This method does not enforce
    * the result be a single row or a single column, so over-fetching may produce
    * inconsistent results.
    *
+   * If a validator is passed before the query, the value is checked with it,
+   * unless there are no rows.
+   *
    * @param query
    */
+  async value<Value>(
+    validator: RowValidator<Value>,
+    query: SqlQueryObject
+  ): Promise<Value>;
   async value<Value>(query: SqlQueryObject): Promise<Value>;
   async value<Value>(
     query: TemplateStringsArray,
     ...params: SqlLiteralParams[]
   ): Promise<Value>;
   async value<Value>(
-    query: TemplateStringsArray | SqlQueryObject,
-    ...params: SqlLiteralParams[]
+    ...args: ValidatedQueryArgs<Value>
   ): Promise<Value | undefined> {
-    // Spurious cast, but should be entirely safe.
-    const row = await this.row<Record<string, Value>>(
-      query as TemplateStringsArray,
-      ...params
-    );
-    return row && row[Object.keys(row)[0]];
+    const { validator, query } = parseValidatedQueryArgs(args);
+    const row = await this.row<Record<string, Value>>(query);
+    // Like `row`, there is nothing to validate without a row.
+    if (!row) return undefined;
+    const value = row[Object.keys(row)[0]];
+    return validator ? validateRow(validator, value, 0, query) : value;
+  }
+
+  /**
+   * Wait for the Postgres advisory lock identified by `key`, then run a block
+   * of work while holding it. Keys are strings, which are hashed to 64-bit
+   * keys, or pairs of 32-bit integers.
+   *
+   * Outside a transaction, the lock belongs to the session, so the block of
+   * work runs on the connection which holds it, and the lock is released as
+   * soon as the block finishes. Inside a transaction, the lock is released
+   * when the outermost transaction commits or rolls back.
+   *
+   * @param key
+   * @param block
+   */
+  async withAdvisoryLock<Result>(
+    key: AdvisoryLockKey,
+    block: (conn: Connection) => Promise<Result>
+  ): Promise<Result> {
+    return (await this._withAdvisoryLock(key, true, block)) as Result;
+  }
+
+  // Take an advisory lock, waiting for it if `wait` is set, and run a block of
+  // work while holding it. Resolves to `undefined` if we didn't wait and the
+  // lock was busy.
+  private async _withAdvisoryLock<Result>(
+    key: AdvisoryLockKey,
+    wait: boolean,
+    block: (conn: Connection) => Promise<Result>
+  ): Promise<Result | undefined> {
+    const args = advisoryLockArgs(key);
+
+    if (this.tx) {
+      if (wait) {
+        await this.query`select pg_advisory_xact_lock(${args})`;
+      } else if (
+        !(await this.value`select pg_try_advisory_xact_lock(${args})`)
+      ) {
+        return undefined;
+      }
+      return block(this);
+    }
+
+    return this.withClient(async (client) => {
+      const conn = this._bind(client);
+      if (wait) {
+        await conn.query`select pg_advisory_lock(${args})`;
+      } else if (!(await conn.value`select pg_try_advisory_lock(${args})`)) {
+        return undefined;
+      }
+
+      let result: Result;
+      try {
+        result = await block(conn);
+      } catch (err) {
+        await unlockOrAbort(conn, args, err);
+        throw err;
+      }
+      await unlockOrAbort(conn, args);
+      return result;
+    });
+  }
+
+  /**
+   * Return a Connection which runs its queries with the given options, on top
+   * of any options this Connection already has. Transactions and connections
+   * started from the returned Connection inherit its options.
+   *
+   * ```ts
+   * const rows = await db.withOptions({ signal: req.signal }).rows`...`;
+   * ```
+   *
+   * @param options
+   */
+  withOptions(options: QueryOptions): Connection {
+    return new Connection(this.withClient, this.tx ?? undefined, this.context, {
+      ...this.options,
+      ...options,
+    });
   }
 }
@@ -0,0 +1,208 @@
+import { Client } from "pg";
+import { identifier, sql } from "selectstar";
+import { retryDelay, sleep } from "./retry";
+
+/**
+ * Called with the payload of each notification on a channel. Payloads sent by
+ * `Connection.notify` are JSON-decoded; payloads which aren't valid JSON are
+ * passed on as strings.
+ */
+export type NotificationHandler<Payload = unknown> = (
+  payload: Payload,
+  channel: string
+) => void;
+
+/** How long to wait between attempts to reconnect. */
+const RECONNECT_POLICY = { baseDelayMs: 100, maxDelayMs: 10000 };
+
+/**
+ * Decode a notification payload.
+ *
+ * @param payload
+ */
+function parsePayload(payload: string | undefined): unknown {
+  if (!payload) return undefined;
+  try {
+    return JSON.parse(payload);
+  } catch (e) {
+    return payload;
+  }
+}
+
+/**
+ * Listens for notifications using a dedicated client, outside of the pool.
+ *
+ * Pooled clients are a poor fit for LISTEN: holding one forever takes it away
+ * from everybody else, and nothing notices when its connection breaks. So we
+ * keep our own client, open only while somebody is listening, and when its
+ * connection is lost, we reconnect and LISTEN on every channel again.
+ * Notifications sent while we are reconnecting are lost.
+ */
+export class Listener {
+  private readonly createClient: () => Client;
+  private readonly handlers: Map<string, Set<NotificationHandler<any>>>;
+  /** Resolves once we are listening on each channel with handlers. */
+  private readonly listening: Map<string, Promise<void>>;
+  private client: Promise<Client> | null;
+  private reconnecting: boolean;
+  private ended: boolean;
+
+  /**
+   * @param createClient Create a new, unconnected client.
+   */
+  constructor(createClient: () => Client) {
+    this.createClient = createClient;
+    this.handlers = new Map();
+    this.listening = new Map();
+    this.client = null;
+    this.reconnecting = false;
+    this.ended = false;
+  }
+
+  /**
+   * Call `handler` for every notification on `channel`. Resolves once we are
+   * listening, to a function which stops calling `handler` again.
+   *
+   * @param channel
+   * @param handler
+   */
+  async listen<Payload>(
+    channel: string,
+    handler: NotificationHandler<Payload>
+  ): Promise<() => Promise<void>> {
+    if (this.ended) throw new Error("Cannot listen after calling end");
+
+    let channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) {
+      channelHandlers = new Set();
+      this.handlers.set(channel, channelHandlers);
+      this.listening.set(channel, this.startListening(channel));
+    }
+    channelHandlers.add(handler);
+
+    // Everybody waits for the same LISTEN, so nobody is told we are listening
+    // before we are, and if it fails, every caller's handler is removed.
+    try {
+      await this.listening.get(channel);
+    } catch (err) {
+      await this.unlisten(channel, handler);
+      throw err;
+    }
+
+    return () => this.unlisten(channel, handler);
+  }
+
+  /** Stop listening on every channel, and close our client. */
+  async end(): Promise<void> {
+    this.ended = true;
+    this.handlers.clear();
+    this.listening.clear();
+    await this.disconnect();
+  }
+
+  private async unlisten<Payload>(
+    channel: string,
+    handler: NotificationHandler<Payload>
+  ): Promise<void> {
+    const channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers?.delete(handler) || channelHandlers.size > 0) return;
+
+    this.handlers.delete(channel);
+    this.listening.delete(channel);
+    if (this.handlers.size === 0) {
+      await this.disconnect();
+    } else if (this.client) {
+      const client = await this.client;
+      await client.query(sql`unlisten ${identifier(channel)}`);
+    }
+  }
+
+  // LISTEN on a new channel. A new client listens on every channel we have
+  // when it starts connecting, so we only need to LISTEN on an existing one.
+  private async startListening(channel: string): Promise<void> {
+    const connected = this.client;
+    const client = await this.connect();
+    if (connected) await client.query(sql`listen ${identifier(channel)}`);
+  }
+
+  // Get our client, connecting and listening on all our channels if needed.
+  private connect(): Promise<Client> {
+    if (this.client) return this.client;
+
+    // Channels added while we connect LISTEN once we are connected.
+    const channels = Array.from(this.handlers.keys());
+    const client = this.createClient();
+    client.on("notification", (msg) => this.dispatch(msg.channel, msg.payload));
+    // A broken connection emits "error" and then "end". We reconnect on "end".
+    client.on("error", () => undefined);
+
+    const connected = (async () => {
+      await client.connect();
+      try {
+        for (const channel of channels) {
+          await client.query(sql`listen ${identifier(channel)}`);
+        }
+      } catch (err) {
+        await client.end();
+        throw err;
+      }
+      return client;
+    })();
+
+    this.client = connected;
+    connected.catch(() => {
+      if (this.client === connected) this.client = null;
+    });
+    client.once("end", () => {
+      // If this isn't our current client, we closed it on purpose.
+      if (this.client !== connected) return;
+      this.client = null;
+      this.reconnect().catch(() => undefined);
+    });
+
+    return connected;
+  }
+
+  private async disconnect(): Promise<void> {
+    const client = this.client;
+    this.client = null;
+    if (client) {
+      await (await client).end();
+    }
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting) return;
+    this.reconnecting = true;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await sleep(retryDelay(RECONNECT_POLICY, attempt));
+        if (this.ended || this.client || this.handlers.size === 0) return;
+        try {
+          await this.connect();
+          return;
+        } catch (e) {
+          // Try again.
+        }
+      }
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  private dispatch(channel: string, payload: string | undefined): void {
+    const channelHandlers = this.handlers.get(channel);
+    if (!channelHandlers) return;
+
+    const value = parsePayload(payload);
+    for (const handler of channelHandlers) {
+      try {
+        handler(value, channel);
+      } catch (err) {
+        // Report it like a throwing query hook, without breaking our
+        // connection or the process.
+        process.emitWarning(err instanceof Error ? err : String(err));
+      }
+    }
+  }
+}
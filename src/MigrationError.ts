@@ -0,0 +1,13 @@
+/**
+ * The migrations in the migrations directory don't agree with the migrations
+ * which have been applied to the database, or a migration can't be run.
+ */
+export class MigrationError extends Error {
+  /** The version of the migration with the problem, if there is one. */
+  version?: string;
+
+  constructor(message: string, version?: string) {
+    super(message);
+    this.version = version;
+  }
+}
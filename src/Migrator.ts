@@ -0,0 +1,421 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join, resolve } from "path";
+import { identifier } from "selectstar";
+import { Connection } from "./Connection";
+import { MigrationError } from "./MigrationError";
+
+/**
+ * What a `.js` or `.ts` migration file exports. `down` is only needed to roll
+ * the migration back.
+ */
+export interface MigrationModule {
+  up(conn: Connection): Promise<void>;
+  down?(conn: Connection): Promise<void>;
+}
+
+/** Options which control where a Migrator finds and records migrations. */
+export interface MigratorOptions {
+  /** The directory containing the migration files. */
+  directory: string;
+  /** The table which records applied migrations. Defaults to `schema_migrations`. */
+  table?: string;
+}
+
+/** A migration, identified by the version and name from its file name. */
+export interface Migration {
+  version: string;
+  name: string;
+}
+
+/**
+ * Where a migration stands:
+ *
+ * - `applied`: applied to the database.
+ * - `pending`: not applied yet.
+ * - `changed`: applied, but the file has been edited since.
+ * - `missing`: applied, but there is no file for it any more.
+ */
+export type MigrationState = "applied" | "pending" | "changed" | "missing";
+
+export interface MigrationStatus extends Migration {
+  state: MigrationState;
+  /** When the migration was applied, if it has been. */
+  appliedAt: Date | null;
+}
+
+/** Options for `Migrator.up` and `Migrator.down`. */
+export interface MigrateOptions {
+  /**
+   * For `up`, the last version to apply. For `down`, the version to roll back
+   * to, which is kept; `null` rolls back every migration.
+   */
+  to?: string | null;
+  /** Report what would be done, without doing it. */
+  dryRun?: boolean;
+}
+
+/** A migration file found in the migrations directory. */
+interface MigrationFile extends Migration {
+  path: string;
+  /** For `.sql` migrations, the `.down.sql` file which reverses it. */
+  downPath: string | null;
+  checksum: string;
+}
+
+/** A migration recorded as applied in the migrations table. */
+interface AppliedMigration extends Migration {
+  checksum: string;
+  appliedAt: Date;
+}
+
+const MIGRATION_FILE = /^(\d+)_(.+?)(\.down)?\.(sql|js|ts)$/;
+
+/**
+ * Order versions numerically, so that `9` comes before `10`.
+ *
+ * @param a
+ * @param b
+ */
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, "en", { numeric: true });
+}
+
+/**
+ * Hash the contents of a migration file, to notice when it is edited.
+ *
+ * @param path
+ */
+async function checksumFile(path: string): Promise<string> {
+  const contents = await fs.readFile(path);
+  return createHash("sha256").update(contents).digest("hex");
+}
+
+/**
+ * Strip a migration file down to what we report to our caller.
+ *
+ * @param file
+ */
+function toMigration({ version, name }: MigrationFile): Migration {
+  return { version, name };
+}
+
+/**
+ * Compare the migration files with the migrations which have been applied.
+ *
+ * @param files
+ * @param applied
+ */
+function migrationStatuses(
+  files: MigrationFile[],
+  applied: AppliedMigration[]
+): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map((m) => [m.version, m]));
+  const fileVersions = new Set(files.map((f) => f.version));
+
+  const statuses: MigrationStatus[] = files.map(
+    ({ version, name, checksum }) => {
+      const record = appliedByVersion.get(version);
+      if (!record) return { version, name, state: "pending", appliedAt: null };
+      return {
+        version,
+        name,
+        state: record.checksum === checksum ? "applied" : "changed",
+        appliedAt: record.appliedAt,
+      };
+    }
+  );
+  for (const { version, name, appliedAt } of applied) {
+    if (!fileVersions.has(version)) {
+      statuses.push({ version, name, state: "missing", appliedAt });
+    }
+  }
+  return statuses.sort((a, b) => compareVersions(a.version, b.version));
+}
+
+/**
+ * Refuse to migrate a database whose applied migrations don't match the
+ * migration files, since we can't tell what state its schema is in.
+ *
+ * @param statuses
+ */
+function checkConsistency(statuses: MigrationStatus[]): void {
+  for (const { version, name, state } of statuses) {
+    if (state === "changed") {
+      throw new MigrationError(
+        `Migration ${version}_${name} has been edited since it was applied`,
+        version
+      );
+    } else if (state === "missing") {
+      throw new MigrationError(
+        `Migration ${version}_${name} has been applied, but its file is missing`,
+        version
+      );
+    }
+  }
+}
+
+/**
+ * Applies and rolls back migrations: ordered `.sql`, `.js` or `.ts` files in
+ * a directory, named like `20201231_create_users.sql`. A `.sql` migration is
+ * rolled back with the matching `.down.sql` file, if there is one, and a
+ * `.js` or `.ts` migration with its `down` export. Loading `.ts` files needs a
+ * TypeScript loader such as ts-node. If a migration has both a `.js` and a
+ * `.ts` file, the `.js` file is used.
+ *
+ * Each migration runs in its own transaction, and is recorded, with a
+ * checksum of its file, in the migrations table. Migrators take a Postgres
+ * advisory lock while they work, so concurrent deploys run one at a time.
+ */
+export class Migrator {
+  private readonly db: Connection;
+  private readonly directory: string;
+  private readonly table: string;
+
+  constructor(db: Connection, options: MigratorOptions) {
+    this.db = db;
+    this.directory = options.directory;
+    this.table = options.table ?? "schema_migrations";
+  }
+
+  /**
+   * Report which migrations have been applied, which are pending, and which
+   * have changed or gone missing since they were applied. This doesn't change
+   * anything in the database.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return migrationStatuses(
+      await this.readMigrations(),
+      await this.appliedMigrations(this.db)
+    );
+  }
+
+  /**
+   * Apply the pending migrations in order, up to and including `options.to`
+   * if given. Resolves to the migrations which were applied.
+   *
+   * @param options
+   */
+  async up(options: MigrateOptions = {}): Promise<Migration[]> {
+    const { to, dryRun } = options;
+    const plan = async (conn: Connection) => {
+      const files = await this.readMigrations();
+      const statuses = migrationStatuses(
+        files,
+        await this.appliedMigrations(conn)
+      );
+      checkConsistency(statuses);
+      const pending = new Set(
+        statuses.filter((m) => m.state === "pending").map((m) => m.version)
+      );
+      return files.filter(
+        (f) =>
+          pending.has(f.version) &&
+          (to == null || compareVersions(f.version, to) <= 0)
+      );
+    };
+    if (dryRun) return (await plan(this.db)).map(toMigration);
+
+    return this.withLock(async (conn) => {
+      await this.createTable(conn);
+      const targets = await plan(conn);
+      const table = identifier(this.table);
+      for (const file of targets) {
+        await conn.transaction(async (tx) => {
+          await this.run(tx, file, "up");
+          await tx.query`
+            insert into ${table} (version, name, checksum)
+            values (${file.version}, ${file.name}, ${file.checksum})
+          `;
+        });
+      }
+      return targets.map(toMigration);
+    });
+  }
+
+  /**
+   * Roll back applied migrations, newest first. With `options.to`, every
+   * migration after that version is rolled back. Otherwise only the latest
+   * one is. Resolves to the migrations which were rolled back.
+   *
+   * @param options
+   */
+  async down(options: MigrateOptions = {}): Promise<Migration[]> {
+    const { to, dryRun } = options;
+    const plan = async (conn: Connection) => {
+      const files = await this.readMigrations();
+      const statuses = migrationStatuses(
+        files,
+        await this.appliedMigrations(conn)
+      );
+      checkConsistency(statuses);
+      const applied = statuses.filter((m) => m.state === "applied").reverse();
+      const targets =
+        to === undefined
+          ? applied.slice(0, 1)
+          : applied.filter(
+              (m) => to === null || compareVersions(m.version, to) > 0
+            );
+      return targets.map(
+        ({ version }) =>
+          files.find((f) => f.version === version) as MigrationFile
+      );
+    };
+
+    if (dryRun) return (await plan(this.db)).map(toMigration);
+
+    return this.withLock(async (conn) => {
+      await this.createTable(conn);
+      const targets = await plan(conn);
+
+      // Check that everything can be rolled back before rolling anything back.
+      for (const file of targets) {
+        if (!this.canRollBack(file)) {
+          throw new MigrationError(
+            `Migration ${file.version}_${file.name} can't be rolled back`,
+            file.version
+          );
+        }
+      }
+
+      const table = identifier(this.table);
+      for (const file of targets) {
+        await conn.transaction(async (tx) => {
+          await this.run(tx, file, "down");
+          await tx.query`delete from ${table} where version = ${file.version}`;
+        });
+      }
+      return targets.map(toMigration);
+    });
+  }
+
+  // Run a block of work on a single connection while holding the migration
+  // lock.
+  private async withLock<Result>(
+    block: (conn: Connection) => Promise<Result>
+  ): Promise<Result> {
+    const key = `simple-postgres migrations ${this.table}`;
+    return this.db.withAdvisoryLock(key, block);
+  }
+
+  private async createTable(conn: Connection): Promise<void> {
+    await conn.query`create table if not exists ${identifier(this.table)} (
+      version text primary key,
+      name text not null,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    )`;
+  }
+
+  // The migrations recorded in the migrations table, if it exists yet.
+  private async appliedMigrations(
+    conn: Connection
+  ): Promise<AppliedMigration[]> {
+    // Quote the name like `identifier` does, so that it refers to the same
+    // table as our other queries.
+    const exists = await conn.value`
+      select to_regclass(quote_ident(${this.table})) is not null
+    `;
+    if (!exists) return [];
+    return conn.rows`
+      select version, name, checksum, applied_at as "appliedAt"
+      from ${identifier(this.table)}
+    `;
+  }
+
+  // Find the migration files in our directory, in order.
+  private async readMigrations(): Promise<MigrationFile[]> {
+    const names = (await fs.readdir(this.directory)).filter(
+      (name) => !name.endsWith(".d.ts")
+    );
+    const ups = new Map<string, MigrationFile>();
+    const downs = new Map<string, string>();
+
+    for (const fileName of names) {
+      const match = MIGRATION_FILE.exec(fileName);
+      if (!match) continue;
+      const [, version, name, down, extension] = match;
+      const path = join(this.directory, fileName);
+
+      const existing = ups.get(version);
+      if (down && extension !== "sql") {
+        throw new MigrationError(
+          `${path} looks like a down migration, but .${extension} migrations ` +
+            "are rolled back by their down export",
+          version
+        );
+      } else if (down) {
+        downs.set(version, path);
+      } else if (
+        existing?.name === name &&
+        [existing.path, path].every((p) => /\.(js|ts)$/.test(p))
+      ) {
+        // A .js file next to a .ts one is usually compiled from it. Use the
+        // .js file, which can always be loaded, wherever we run.
+        if (extension === "js") {
+          existing.path = path;
+          existing.checksum = await checksumFile(path);
+        }
+      } else if (existing) {
+        throw new MigrationError(
+          `There is more than one migration with version ${version}`,
+          version
+        );
+      } else {
+        const checksum = await checksumFile(path);
+        ups.set(version, { version, name, path, downPath: null, checksum });
+      }
+    }
+
+    for (const [version, downPath] of downs) {
+      const up = ups.get(version);
+      if (!up || !up.path.endsWith(".sql")) {
+        throw new MigrationError(
+          `${downPath} doesn't match a .sql migration`,
+          version
+        );
+      }
+      up.downPath = downPath;
+    }
+
+    return Array.from(ups.values()).sort((a, b) =>
+      compareVersions(a.version, b.version)
+    );
+  }
+
+  private canRollBack(file: MigrationFile): boolean {
+    if (file.path.endsWith(".sql")) return file.downPath !== null;
+    return typeof this.load(file).down === "function";
+  }
+
+  // Load a `.js` or `.ts` migration.
+  private load(file: MigrationFile): MigrationModule {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require(resolve(file.path));
+  }
+
+  // Run one direction of a migration inside the given transaction.
+  private async run(
+    tx: Connection,
+    file: MigrationFile,
+    direction: "up" | "down"
+  ): Promise<void> {
+    if (file.path.endsWith(".sql")) {
+      const path = direction === "up" ? file.path : (file.downPath as string);
+      // Without parameters, the whole file is sent at once, so it can contain
+      // several statements.
+      const text = await fs.readFile(path, "utf8");
+      await tx.query({ text, values: [] });
+    } else {
+      const migration = this.load(file);
+      const run = direction === "up" ? migration.up : migration.down;
+      if (typeof run !== "function") {
+        throw new MigrationError(
+          `${file.path} doesn't export an ${direction} function`,
+          file.version
+        );
+      }
+      await run.call(migration, tx);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { SqlError } from "./SqlError";
+
+/**
+ * A query was cancelled because the `AbortSignal` passed to `withOptions` was
+ * aborted, either before the query started or while it was running.
+ *
+ * This captures the SQL and the parameters for easy debugging.
+ */
+export class QueryCancelledError extends SqlError {
+  /** Had the query started when it was cancelled? */
+  started?: boolean;
+
+  constructor(args: {
+    sql?: string;
+    params?: unknown[];
+    pgError?: Error;
+    notices?: Error[];
+    started?: boolean;
+  }) {
+    super(args);
+  }
+
+  valueOf(): string {
+    if (this.pgError) return super.valueOf();
+    const when = this.started ? "" : " before it started";
+    return `SQL Error: query was cancelled${when}\n${this.describeQuery()}`;
+  }
+}
@@ -0,0 +1,27 @@
+import { SqlError } from "./SqlError";
+
+/**
+ * A query was cancelled because it ran for longer than the `timeoutMs` passed
+ * to `withOptions`.
+ *
+ * This captures the SQL and the parameters for easy debugging.
+ */
+export class QueryTimeoutError extends SqlError {
+  timeoutMs?: number;
+
+  constructor(args: {
+    sql?: string;
+    params?: unknown[];
+    pgError?: Error;
+    notices?: Error[];
+    timeoutMs?: number;
+  }) {
+    super(args);
+  }
+
+  valueOf(): string {
+    return `SQL Error: query timed out after ${
+      this.timeoutMs
+    }ms\n${this.describeQuery()}`;
+  }
+}
@@ -0,0 +1,99 @@
+import { Pool, PoolClient } from "pg";
+
+/** Options which control how `SimplePostgres.fromUrls` uses read replicas. */
+export interface ReplicaOptions {
+  /**
+   * Run `rows`, `row`, `value`, `column` and `stream` on a replica, unless
+   * they are inside a `transaction` or `connection`. Defaults to `false`.
+   */
+  readFromReplicas?: boolean;
+  /**
+   * How long to stop using a replica for after failing to connect to it, in
+   * milliseconds. Defaults to 30 seconds.
+   */
+  ejectMs?: number;
+  /**
+   * How long to wait to connect to a replica before ejecting it, in
+   * milliseconds. Defaults to 5 seconds.
+   */
+  connectTimeoutMs?: number;
+}
+
+interface Replica {
+  pool: Pool;
+  /** When we can try this replica again, if we have ejected it. */
+  ejectedUntil: number;
+}
+
+/**
+ * A group of read replicas, which are used in turn. A replica which we can't
+ * connect to within `connectTimeoutMs` is ejected, and not used again until
+ * `ejectMs` has passed.
+ */
+export class ReplicaSet {
+  private readonly replicas: Replica[];
+  private readonly ejectMs: number;
+  private readonly connectTimeoutMs: number;
+  private next: number;
+
+  constructor(
+    pools: Pool[],
+    ejectMs: number = 30000,
+    connectTimeoutMs: number = 5000
+  ) {
+    this.replicas = pools.map((pool) => ({ pool, ejectedUntil: 0 }));
+    this.ejectMs = ejectMs;
+    this.connectTimeoutMs = connectTimeoutMs;
+    this.next = 0;
+  }
+
+  /**
+   * Check out a client from the next healthy replica. Resolves to `null` if
+   * there are no replicas we can connect to.
+   */
+  async connect(): Promise<{ pool: Pool; client: PoolClient } | null> {
+    for (let i = 0; i < this.replicas.length; i++) {
+      const replica = this.replicas[this.next];
+      this.next = (this.next + 1) % this.replicas.length;
+      if (replica.ejectedUntil > Date.now()) continue;
+
+      try {
+        const client = await this.connectWithin(replica.pool);
+        return { pool: replica.pool, client };
+      } catch (err) {
+        replica.ejectedUntil = Date.now() + this.ejectMs;
+      }
+    }
+    return null;
+  }
+
+  // Check out a client from `pool`, or fail if that takes too long, because
+  // a replica which is unreachable may not refuse the connection.
+  private async connectWithin(pool: Pool): Promise<PoolClient> {
+    const connecting = pool.connect();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(
+        () => reject(new Error("Timed out connecting to a replica")),
+        this.connectTimeoutMs
+      );
+    });
+    try {
+      return await Promise.race([connecting, timeout]);
+    } catch (err) {
+      // If the client turns up later, give it straight back.
+      connecting.then(
+        (client) => client.release(),
+        () => undefined
+      );
+      throw err;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /** Close every replica's pool. */
+  async end(): Promise<void> {
+    await Promise.all(this.replicas.map(({ pool }) => pool.end()));
+  }
+}
@@ -0,0 +1,87 @@
+import { SqlQueryObject } from "selectstar";
+import { SqlError } from "./SqlError";
+
+/**
+ * Anything that can check an unknown value at runtime and either return it as
+ * a `T` or throw. This is deliberately the smallest interface that zod, io-ts
+ * (via a small adapter), valibot and friends all satisfy, so we don't need to
+ * depend on any of them.
+ */
+export interface RowValidator<T> {
+  parse(input: unknown): T;
+}
+
+/**
+ * Is this a validator? Validators are passed as the first argument of a query
+ * helper, where we would otherwise expect a query, so we tell them apart by
+ * duck typing.
+ *
+ * @param value
+ */
+export function isRowValidator(value: unknown): value is RowValidator<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    typeof (value as RowValidator<unknown>).parse === "function"
+  );
+}
+
+/**
+ * A row returned by a query did not pass its validator.
+ *
+ * This captures the SQL and the parameters for easy debugging, as well as the
+ * index of the bad row and the error thrown by the validator.
+ */
+export class RowValidationError extends SqlError {
+  rowIndex: number;
+  validationError: unknown;
+
+  constructor(args: {
+    sql?: string;
+    params?: unknown[];
+    rowIndex: number;
+    validationError: unknown;
+  }) {
+    super(args);
+    this.rowIndex = args.rowIndex;
+    this.validationError = args.validationError;
+  }
+
+  valueOf(): string {
+    const reason =
+      this.validationError instanceof Error
+        ? this.validationError.message
+        : String(this.validationError);
+    return `SQL Error: row ${
+      this.rowIndex
+    } failed validation: ${reason}\n${this.describeQuery()}`;
+  }
+}
+
+/**
+ * Run `validator` over a single row (or value) returned by `query`, wrapping
+ * any failure in a `RowValidationError`.
+ *
+ * @param validator
+ * @param row
+ * @param rowIndex
+ * @param query The query which returned this row, for error reporting.
+ */
+export function validateRow<T>(
+  validator: RowValidator<T>,
+  row: unknown,
+  rowIndex: number,
+  query: SqlQueryObject
+): T {
+  try {
+    return validator.parse(row);
+  } catch (err) {
+    throw new RowValidationError({
+      sql: query.text,
+      params: query.values,
+      rowIndex,
+      validationError: err,
+    });
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * A query, transaction or stream was refused because `shutdown` has been
+ * called on the SimplePostgres instance it was started from.
+ */
+export class ShuttingDownError extends Error {
+  constructor() {
+    super("The database pool is shutting down, so no more work can start");
+  }
+}
@@ -1,35 +1,237 @@
-import { Pool } from "pg";
-import { getApplicationName, getConfigFromUrl } from "./configure";
-import { Connection, isAbortConnectionError } from "./Connection";
+import { Client, Pool, PoolClient, PoolConfig } from "pg";
+import {
+  getApplicationName,
+  getConfigFromEnvironment,
+  getConfigFromUrl,
+} from "./configure";
+import {
+  Connection,
+  ConnectionContext,
+  isAbortConnectionError,
+  WithPoolClient,
+} from "./Connection";
+import { sql } from "selectstar";
+import { elapsedMs, QueryHooks } from "./hooks";
+import { InternalClient } from "./internalClient";
+import { Listener, NotificationHandler } from "./Listener";
+import { QueryTimeoutError } from "./QueryTimeoutError";
+import { ReplicaOptions, ReplicaSet } from "./ReplicaSet";
+import { ShuttingDownError } from "./ShuttingDownError";
+import { HealthReport, PoolStats, StatsCollector } from "./stats";
+
+/**
+ * Create a pool with `config`.
+ *
+ * @param config
+ */
+function createPool(config: PoolConfig): Pool {
+  // Set application name if it hasn't been set already
+  config.application_name = config.application_name ?? getApplicationName();
+
+  return new Pool(config);
+}
+
+/**
+ * Create a new client outside of the pool, configured like the pool's clients.
+ *
+ * @param pool
+ */
+function createClientLike(pool: Pool): Client {
+  return new Client((pool as Pool & { options: PoolConfig }).options);
+}
+
+/**
+ * Cancel the query running on a backend. This uses a fresh client rather than
+ * one from the pool, because the pool may be exhausted.
+ *
+ * @param pool
+ * @param processID
+ */
+async function cancelBackend(pool: Pool, processID: number): Promise<void> {
+  const client = createClientLike(pool);
+  await client.connect();
+  try {
+    await client.query("select pg_cancel_backend($1)", [processID]);
+  } finally {
+    await client.end();
+  }
+}
+
+const ignoreErrors = () => undefined;
+
+/** How long `shutdown` waits for each cancel request, in milliseconds. */
+const SHUTDOWN_CANCEL_MS = 1000;
+
+/**
+ * Run a unit of work with a client checked out of a pool, then return it to
+ * the pool.
+ *
+ * @param client
+ * @param work
+ */
+async function useClient<Result>(
+  client: PoolClient,
+  work: (client: PoolClient) => Promise<Result>
+): Promise<Result> {
+  // If the connection fails while we have the client, node-postgres fails the
+  // running query, and also emits an error, which would crash the process if
+  // nothing was listening. The pool only listens while the client is idle.
+  client.on("error", ignoreErrors);
+  try {
+    const result = await work(client);
+    client.removeListener("error", ignoreErrors);
+    client.release();
+    return result;
+  } catch (e) {
+    client.removeListener("error", ignoreErrors);
+    if (isAbortConnectionError(e)) {
+      // this is a really bad one, remove the connection from the pool
+      client.release(e);
+    } else {
+      client.release();
+    }
+    throw e;
+  }
+}
+
+/** Options for `SimplePostgres.shutdown`. */
+export interface ShutdownOptions {
+  /**
+   * How long to wait for work in progress to finish before cancelling it, in
+   * milliseconds. Defaults to 30 seconds.
+   */
+  timeoutMs?: number;
+}
 
 export class SimplePostgres extends Connection {
   private readonly getPool: () => Pool;
+  private readonly replicas: ReplicaSet | null;
+  /** The pools of the clients we have checked out of replicas. */
+  private readonly replicaPools: WeakMap<PoolClient, Pool>;
+  private readonly statsCollector: StatsCollector;
+  private listener: Listener | null;
+  private shutdownPromise: Promise<void> | null;
+  /** The number of units of work which are waiting for or using a client. */
+  private activeWork: number;
+  /** The clients which units of work are using. */
+  private readonly activeClients: Set<PoolClient>;
+  /** Called once there is no more active work, while shutting down. */
+  private onIdle: (() => void) | null;
 
-  constructor(getPool: () => Pool) {
-    super(async (work) => {
-      const client = await this.pool.connect();
+  /**
+   * A connection which runs its queries on a read replica, or on the primary
+   * if every replica is unavailable. Without replicas, this is the instance
+   * itself.
+   */
+  readonly replica: Connection;
 
-      try {
-        const result = await work(client);
-        client.release();
-        return result;
-      } catch (e) {
-        if (isAbortConnectionError(e)) {
-          // this is a really bad one, remove the connection from the pool
-          client.release(e);
-        } else {
-          client.release();
-        }
-        throw e;
-      }
-    });
+  constructor(
+    getPool: () => Pool,
+    replicas?: ReplicaSet,
+    options: ReplicaOptions = {}
+  ) {
+    const statsCollector = new StatsCollector();
+    const withReplicaClient: WithPoolClient = (work) =>
+      this.track(async () => {
+        const replica = await this.replicas?.connect();
+        if (!replica) return this.checkout();
+        this.replicaPools.set(replica.client, replica.pool);
+        return replica.client;
+      }, work);
+    const context: ConnectionContext = {
+      cancelBackend: (client) =>
+        cancelBackend(
+          this.replicaPools.get(client) ?? this.pool,
+          (client as PoolClient & { processID: number }).processID
+        ),
+      hooks: [statsCollector],
+    };
+
+    super(
+      (work) => this.track(() => this.checkout(), work),
+      undefined,
+      replicas && options.readFromReplicas
+        ? { ...context, withReplicaClient }
+        : context
+    );
     this.getPool = getPool;
+    this.replicas = replicas ?? null;
+    this.replicaPools = new WeakMap();
+    this.statsCollector = statsCollector;
+    this.listener = null;
+    this.shutdownPromise = null;
+    this.activeWork = 0;
+    this.activeClients = new Set();
+    this.onIdle = null;
+    this.replica = replicas
+      ? new Connection(withReplicaClient, undefined, context)
+      : this;
   }
 
   get pool(): Pool {
     return this.getPool();
   }
 
+  // Check out a client from the primary's pool, counting how long we wait.
+  private async checkout(): Promise<PoolClient> {
+    const requested = process.hrtime.bigint();
+    const client = await this.pool.connect();
+    this.statsCollector.recordCheckout(elapsedMs(requested));
+    return client;
+  }
+
+  // Run a unit of work with a client from `checkout`, keeping track of it so
+  // that `shutdown` can wait for it. Once we are shutting down, new work is
+  // refused, including work which was still waiting for a client.
+  private async track<Result>(
+    checkout: () => Promise<PoolClient>,
+    work: (client: PoolClient) => Promise<Result>
+  ): Promise<Result> {
+    if (this.shutdownPromise) throw new ShuttingDownError();
+
+    this.activeWork++;
+    try {
+      const client = await checkout();
+      if (this.shutdownPromise) {
+        client.release();
+        throw new ShuttingDownError();
+      }
+
+      this.activeClients.add(client);
+      try {
+        return await useClient(client, work);
+      } finally {
+        this.activeClients.delete(client);
+      }
+    } finally {
+      this.activeWork--;
+      if (this.activeWork === 0) this.onIdle?.();
+    }
+  }
+
+  /**
+   * Register hooks which observe every query run by this instance, including
+   * queries run by connections and transactions started from it. Returns a
+   * function which unregisters the hooks again.
+   *
+   * ```ts
+   * db.use({
+   *   afterQuery: ({ sql, durationMs }) => metrics.timing("db.query", durationMs),
+   *   onError: ({ error }) => console.error(error.message),
+   * });
+   * ```
+   *
+   * @param hooks
+   */
+  use(hooks: QueryHooks): () => void {
+    const allHooks = this.context.hooks as QueryHooks[];
+    allHooks.push(hooks);
+    return () => {
+      const index = allHooks.indexOf(hooks);
+      if (index !== -1) allHooks.splice(index, 1);
+    };
+  }
+
   /**
    * Backwards compatibility.
    *
@@ -37,14 +239,142 @@ export class SimplePostgres extends Connection {
    * using. Alternatively `instance.pool.end()`
    */
   async end(): Promise<void> {
+    await this.listener?.end();
+    await this.replicas?.end();
     await this.pool.end();
   }
 
+  /**
+   * Shut down gracefully: refuse new queries, transactions and streams with a
+   * `ShuttingDownError` straight away, wait up to `options.timeoutMs` for
+   * those in progress to finish, then cancel any which are left and close
+   * the pool. Calling this again returns the same promise.
+   *
+   * ```ts
+   * process.on("SIGTERM", () => db.shutdown({ timeoutMs: 10000 }));
+   * ```
+   *
+   * @param options
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this._shutdown(options.timeoutMs ?? 30000);
+    }
+    return this.shutdownPromise;
+  }
+
+  // Wait for active work to finish, cancel whatever is left at the deadline,
+  // and end the pool. Ending the pool waits for every client to be released,
+  // so clients which are still in use have their connections closed.
+  private async _shutdown(timeoutMs: number): Promise<void> {
+    if (this.activeWork > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await new Promise<void>((resolve) => {
+        this.onIdle = resolve;
+        timer = setTimeout(() => resolve(), timeoutMs);
+      });
+      if (timer) clearTimeout(timer);
+    }
+
+    await Promise.all(
+      Array.from(this.activeClients, async (client) => {
+        // Close the connection first, because cancelling opens a new one,
+        // which may hang if the server is unreachable. The server doesn't
+        // notice a closed connection until it replies, so still ask it to
+        // stop the query, but only wait a little while for that.
+        (client as InternalClient).connection.stream.destroy();
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          this.context.cancelBackend?.(client).catch(() => undefined),
+          new Promise<void>((resolve) => {
+            timer = setTimeout(() => resolve(), SHUTDOWN_CANCEL_MS);
+          }),
+        ]);
+        if (timer) clearTimeout(timer);
+      })
+    );
+    await this.end();
+  }
+
+  /**
+   * Call `handler` with the payload of every notification sent to `channel`,
+   * for example by `notify`. Resolves once we are listening, to a function
+   * which stops listening again.
+   *
+   * Notifications are received by a dedicated client outside of the pool,
+   * which reconnects and listens again if its connection is lost.
+   * Notifications sent while reconnecting are lost.
+   *
+   * @param channel
+   * @param handler
+   */
+  async listen<Payload = unknown>(
+    channel: string,
+    handler: NotificationHandler<Payload>
+  ): Promise<() => Promise<void>> {
+    if (!this.listener) {
+      this.listener = new Listener(() => createClientLike(this.pool));
+    }
+    return this.listener.listen(channel, handler);
+  }
+
+  /**
+   * Check that the primary database is up, by running a quick query on it,
+   * and report on the server. Rejects if the server doesn't respond within
+   * `timeoutMs` milliseconds, including any time spent waiting for the pool,
+   * which makes it suitable for readiness probes.
+   *
+   * @param timeoutMs
+   */
+  async health(timeoutMs: number = 5000): Promise<HealthReport> {
+    const probe = sql`
+      select
+        current_setting('server_version') as "serverVersion",
+        pg_is_in_recovery() as "inRecovery"
+    `;
+    const start = process.hrtime.bigint();
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((resolve, reject) => {
+      timer = setTimeout(() => {
+        const { text, values } = probe;
+        reject(new QueryTimeoutError({ sql: text, params: values, timeoutMs }));
+      }, timeoutMs);
+    });
+
+    try {
+      const { serverVersion, inRecovery } = await Promise.race([
+        this.withOptions({ timeoutMs }).one<{
+          serverVersion: string;
+          inRecovery: boolean;
+        }>(probe),
+        timeout,
+      ]);
+      return { serverVersion, latencyMs: elapsedMs(start), inRecovery };
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Report how busy the primary's pool is, how long we have waited for it,
+   * and how many queries have run and failed (on replicas too), for
+   * dashboards and alerts.
+   */
+  stats(): PoolStats {
+    return this.statsCollector.stats(this.pool);
+  }
+
   /**
    * Factory function: generate an instance of SimplePostgres from the
    * DATABASE_URL environment variable. Converts query arguments in the URL into
    * parameters for the database pool.
    *
+   * Without DATABASE_URL, the libpq variables (PGHOST, PGPORT, PGUSER,
+   * PGDATABASE, PGPASSWORD, PGSSLMODE, PGAPPNAME and PGSERVICE) are used
+   * instead, along with pg_service.conf and .pgpass, like psql does. Without
+   * a host, we connect to a local Unix socket if there is one, or localhost.
+   *
    * The database pool is instantiated lazily.
    */
   static fromEnvironment(): SimplePostgres {
@@ -52,14 +382,7 @@ export class SimplePostgres extends Connection {
     return new SimplePostgres(() => {
       if (pool) return pool;
 
-      if (!process.env.DATABASE_URL) throw new RangeError("Cannot create");
-
-      const config = getConfigFromUrl(process.env.DATABASE_URL);
-
-      // Set application name if it hasn't been set already
-      config.application_name = config.application_name ?? getApplicationName();
-
-      pool = new Pool(config);
+      pool = createPool(getConfigFromEnvironment());
       return pool;
     });
   }
@@ -74,15 +397,40 @@ export class SimplePostgres extends Connection {
    * @param url
    */
   static fromUrl(url: string): SimplePostgres {
-    const config = getConfigFromUrl(url);
-
-    // Set application name if it hasn't been set already
-    config.application_name = config.application_name ?? getApplicationName();
-
-    const pool = new Pool(config);
+    const pool = createPool(getConfigFromUrl(url));
     return new SimplePostgres(() => pool);
   }
 
+  /**
+   * Factory function: generate an instance of SimplePostgres which runs its
+   * queries on the primary database at `primaryUrl`, and runs the queries of
+   * `db.replica` on the read replicas at `replicaUrls`, in turn.
+   *
+   * A replica which can't be connected to within `options.connectTimeoutMs`
+   * is ejected for `options.ejectMs`.
+   * With `options.readFromReplicas`, the read-only helpers run on replicas
+   * too, except inside `transaction` or `connection`.
+   *
+   * The database pools are instantiated eagerly.
+   *
+   * @param primaryUrl
+   * @param replicaUrls
+   * @param options
+   */
+  static fromUrls(
+    primaryUrl: string,
+    replicaUrls: string[],
+    options: ReplicaOptions = {}
+  ): SimplePostgres {
+    const pool = createPool(getConfigFromUrl(primaryUrl));
+    const replicas = new ReplicaSet(
+      replicaUrls.map((url) => createPool(getConfigFromUrl(url))),
+      options.ejectMs,
+      options.connectTimeoutMs
+    );
+    return new SimplePostgres(() => pool, replicas, options);
+  }
+
   /**
    * Factory function: generate an instance of SimplePostgres with the provided
    * Postgres Pool instance.
@@ -6,6 +6,81 @@ function stringifyParameters(params: unknown[]) {
     .join("");
 }
 
+/** How many lines to show on either side of the line with an error. */
+const CONTEXT_LINES = 3;
+
+/** The leading whitespace of a line. */
+function indentation(line: string): string {
+  return /^[ \t]*/.exec(line)?.[0] ?? "";
+}
+
+/**
+ * Show where in a query an error occurred: the offending line, a few lines
+ * around it, and a `^` under the character at `position`.
+ *
+ * Our queries are usually indented template literals, so blank lines around
+ * the excerpt are dropped and the common indentation is removed. Line and
+ * column numbers still refer to the original SQL text.
+ *
+ * @param sql
+ * @param position A 1-based index into `sql`, counted in characters as
+ *   Postgres does, rather than in UTF-16 code units.
+ */
+function annotateSql(sql: string, position: number): string | undefined {
+  const chars = Array.from(sql);
+  if (!Number.isInteger(position) || position < 1) return undefined;
+  if (position > chars.length + 1) return undefined;
+
+  const lines = sql.split("\n").map((line) => line.replace(/\r$/, ""));
+  const before = chars
+    .slice(0, position - 1)
+    .join("")
+    .split("\n");
+  const lineIndex = before.length - 1;
+  const column = Array.from(before[lineIndex]).length + 1;
+
+  let first = Math.max(lineIndex - CONTEXT_LINES, 0);
+  let last = Math.min(lineIndex + CONTEXT_LINES, lines.length - 1);
+  while (first < lineIndex && lines[first].trim() === "") first++;
+  while (last > lineIndex && lines[last].trim() === "") last--;
+
+  const shown = lines.slice(first, last + 1);
+  const indents = shown
+    .filter((line) => line.trim() !== "")
+    .map((line) => indentation(line).length);
+  const indent = indents.length ? Math.min(...indents) : 0;
+  const width = String(last + 1).length;
+
+  const output = [`at line ${lineIndex + 1}, column ${column}:`];
+  shown.forEach((line, i) => {
+    const lineNumber = first + i + 1;
+    const marker = lineNumber === lineIndex + 1 ? ">" : " ";
+    const number = String(lineNumber).padStart(width);
+    output.push(`${marker} ${number} | ${line.slice(indent)}`.trimEnd());
+
+    if (lineNumber === lineIndex + 1) {
+      // Keep tabs, so that the caret lines up however tabs are displayed.
+      const padding = Array.from(line)
+        .slice(indent, Math.max(column - 1, indent))
+        .map((c) => (c === "\t" ? "\t" : " "))
+        .join("");
+      output.push(`  ${" ".repeat(width)} | ${padding}^`);
+    }
+  });
+  return output.join("\n");
+}
+
+/** Fields which Postgres may report about an error, as strings. */
+type PgErrorField =
+  | "code"
+  | "constraint"
+  | "table"
+  | "column"
+  | "detail"
+  | "hint"
+  | "schema"
+  | "position";
+
 /**
  * An that occurred while running an SQL query.
  *
@@ -32,15 +107,82 @@ export class SqlError extends Error {
     return this.valueOf();
   }
 
+  /** The SQLSTATE code reported by Postgres, such as `23505`. */
+  get code(): string | undefined {
+    return this.pgErrorField("code");
+  }
+
+  /** The name of the constraint which was violated, if any. */
+  get constraint(): string | undefined {
+    return this.pgErrorField("constraint");
+  }
+
+  /** The name of the table the error relates to, if any. */
+  get table(): string | undefined {
+    return this.pgErrorField("table");
+  }
+
+  /** The name of the column the error relates to, if any. */
+  get column(): string | undefined {
+    return this.pgErrorField("column");
+  }
+
+  /** A more detailed explanation of the error, if Postgres gave one. */
+  get detail(): string | undefined {
+    return this.pgErrorField("detail");
+  }
+
+  /** A suggestion about how to fix the problem, if Postgres gave one. */
+  get hint(): string | undefined {
+    return this.pgErrorField("hint");
+  }
+
+  /** The name of the schema the error relates to, if any. */
+  get schema(): string | undefined {
+    return this.pgErrorField("schema");
+  }
+
+  /**
+   * Where in the SQL text the error occurred, as a 1-based character index,
+   * if Postgres reported one.
+   */
+  get position(): number | undefined {
+    const position = this.pgErrorField("position");
+    return position != null ? Number(position) : undefined;
+  }
+
   valueOf(): string {
     const notices = this.notices?.map?.((e) => `notice: ${e.message}`) || [];
     const errorsStr = [...notices, this.pgError?.message].join("\n");
 
+    return `SQL Error: ${errorsStr}\n${this.describeQuery()}`;
+  }
+
+  private pgErrorField(name: PgErrorField): string | undefined {
+    const value = (this.pgError as Partial<Record<PgErrorField, unknown>>)?.[
+      name
+    ];
+    return typeof value === "string" ? value : undefined;
+  }
+
+  /**
+   * The SQL text followed by a listing of the query parameters, if any. If
+   * Postgres told us where in the SQL the error is, we show that part of the
+   * SQL with the error marked instead.
+   */
+  protected describeQuery(): string {
+    const position = this.position;
+    const sqlStr =
+      (this.sql != null &&
+        position != null &&
+        annotateSql(this.sql, position)) ||
+      this.sql;
+
     const paramsStr =
       this.params && this.params.length
         ? "\nQuery parameters:" + stringifyParameters(this.params)
         : "";
 
-    return `SQL Error: ${errorsStr}\n${this.sql}${paramsStr}`;
+    return `${sqlStr}${paramsStr}`;
   }
 }
@@ -1,4 +1,62 @@
 import { Template, template, identifier } from "selectstar";
+import { RetryPolicy } from "./retry";
+
+/** Transaction isolation levels supported by Postgres. */
+export type IsolationLevel =
+  | "serializable"
+  | "repeatable read"
+  | "read committed"
+  | "read uncommitted";
+
+/** Options which control how a top-level transaction behaves. */
+export interface TransactionOptions {
+  /** The isolation level. Defaults to the server's default. */
+  isolation?: IsolationLevel;
+  /** Start a `read only` (or, if `false`, a `read write`) transaction. */
+  readOnly?: boolean;
+  /**
+   * Start a `deferrable` (or, if `false`, a `not deferrable`) transaction.
+   * This only has an effect for `serializable`, `read only` transactions.
+   */
+  deferrable?: boolean;
+  /**
+   * Re-run the whole transaction if it fails because of a serialization
+   * failure or a deadlock. Pass `{}` to use the default policy.
+   */
+  retry?: RetryPolicy;
+}
+
+const isolationLevelModes: Record<IsolationLevel, Template> = {
+  serializable: template`isolation level serializable`,
+  "repeatable read": template`isolation level repeatable read`,
+  "read committed": template`isolation level read committed`,
+  "read uncommitted": template`isolation level read uncommitted`,
+};
+
+/**
+ * Convert transaction options into a list of transaction modes for `begin`.
+ *
+ * @param options
+ */
+function transactionModes(options: TransactionOptions): Template[] {
+  const modes: Template[] = [];
+  if (options.isolation != null) {
+    const mode = isolationLevelModes[options.isolation];
+    if (!mode) {
+      throw new RangeError(`Unknown isolation level: ${options.isolation}`);
+    }
+    modes.push(mode);
+  }
+  if (options.readOnly != null) {
+    modes.push(options.readOnly ? template`read only` : template`read write`);
+  }
+  if (options.deferrable != null) {
+    modes.push(
+      options.deferrable ? template`deferrable` : template`not deferrable`
+    );
+  }
+  return modes;
+}
 
 /** Abstract interface to a transaction. */
 export abstract class Transaction {
@@ -11,8 +69,11 @@ export abstract class Transaction {
   /** SQL to roll back this transaction. */
   abstract rollbackStatement(): Template;
 
-  /** Create a nested transaction. */
-  abstract newChildTransaction(): Transaction;
+  /**
+   * Create a nested transaction. Savepoints can't change or retry anything set
+   * by `TransactionOptions`, so passing options here will throw a `RangeError`.
+   */
+  abstract newChildTransaction(options?: TransactionOptions): Transaction;
 }
 
 /** A top-level transaction. */
@@ -20,13 +81,26 @@ export class RealTransaction extends Transaction {
   /** The number to use for the next savepoint. */
   private nextSavepointNumber: number;
 
-  constructor() {
+  /** Transaction modes to pass to `begin`. */
+  private modes: Template[];
+
+  /**
+   * Create a new top-level transaction.
+   *
+   * @param options Options which control how the transaction behaves.
+   */
+  constructor(options: TransactionOptions = {}) {
     super();
     this.nextSavepointNumber = 0;
+    this.modes = transactionModes(options);
   }
 
   beginStatement(): Template {
-    return template`begin`;
+    return this.modes.reduce(
+      (stmt, mode, i) =>
+        i === 0 ? template`${stmt} ${mode}` : template`${stmt}, ${mode}`,
+      template`begin`
+    );
   }
 
   commitStatement(): Template {
@@ -37,8 +111,8 @@ export class RealTransaction extends Transaction {
     return template`rollback`;
   }
 
-  newChildTransaction(): Transaction {
-    return new Savepoint(this);
+  newChildTransaction(options?: TransactionOptions): Transaction {
+    return new Savepoint(this, options);
   }
 
   /**
@@ -70,9 +144,19 @@ export class Savepoint extends Transaction {
    * Create a new savepoint.
    *
    * @param rootTransaction The root transaction, which generates unique savepoint names.
+   * @param options Must be empty, because savepoints can't change them.
    */
-  constructor(rootTransaction: RealTransaction) {
+  constructor(rootTransaction: RealTransaction, options?: TransactionOptions) {
     super();
+    const modes = options ? transactionModes(options) : [];
+    if (modes.length > 0) {
+      throw new RangeError(
+        "Cannot apply transaction options to a nested transaction (savepoint)"
+      );
+    }
+    if (options?.retry) {
+      throw new RangeError("Cannot retry a nested transaction (savepoint)");
+    }
     this.rootTransaction = rootTransaction;
     this.id = rootTransaction.getUniqueSavepointId();
   }
@@ -89,7 +173,7 @@ export class Savepoint extends Transaction {
     return template`rollback to savepoint ${this.id}`;
   }
 
-  newChildTransaction(): Transaction {
-    return new Savepoint(this.rootTransaction);
+  newChildTransaction(options?: TransactionOptions): Transaction {
+    return new Savepoint(this.rootTransaction, options);
   }
 }
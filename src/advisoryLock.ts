@@ -0,0 +1,42 @@
+import { createHash } from "crypto";
+import { Template, template } from "selectstar";
+
+/**
+ * Identifies a Postgres advisory lock: either a string, which is hashed to a
+ * 64-bit key, or a pair of 32-bit integers.
+ */
+export type AdvisoryLockKey = string | [number, number];
+
+const MIN_INT32 = -(2 ** 31);
+const MAX_INT32 = 2 ** 31 - 1;
+
+/**
+ * Hash a string to a signed 64-bit lock key: the first eight bytes of its
+ * SHA-256 digest. Unlike `hashtext`, this doesn't depend on the Postgres
+ * version, so any process can compute the same key.
+ *
+ * @param key
+ */
+function hashKey(key: string): string {
+  const digest = createHash("sha256").update(key, "utf8").digest();
+  return digest.readBigInt64BE(0).toString();
+}
+
+/**
+ * The arguments to pass to the `pg_advisory_*` functions for a lock key.
+ *
+ * @param key
+ */
+export function advisoryLockArgs(key: AdvisoryLockKey): Template {
+  if (typeof key === "string") {
+    return template`${hashKey(key)}::bigint`;
+  }
+  for (const part of key) {
+    if (!Number.isInteger(part) || part < MIN_INT32 || part > MAX_INT32) {
+      throw new RangeError(
+        `Advisory lock keys must be 32-bit integers, but got ${part}`
+      );
+    }
+  }
+  return template`${key[0]}::integer, ${key[1]}::integer`;
+}
@@ -1,7 +1,83 @@
 import findRoot from "find-root";
-import { readFileSync } from "fs";
+import { existsSync, readFileSync, statSync } from "fs";
+import { homedir, userInfo } from "os";
+import { join } from "path";
 import { PoolConfig } from "pg";
 import { parse as parseConnectionString } from "pg-connection-string";
+import { checkServerIdentity, ConnectionOptions } from "tls";
+
+/**
+ * Build the TLS options for a connection from the libpq-style parameters in
+ * a URL:
+ *
+ * - `sslmode`: `disable` connects without TLS. `require` uses TLS without
+ *   checking the server's certificate, unless `sslrootcert` is given, when it
+ *   acts like `verify-ca`. `allow` and `prefer` act like `require`, because
+ *   node-postgres can't fall back from TLS to a plain connection, and
+ *   node-postgres's `no-verify` never checks the certificate. `verify-ca`
+ *   checks that the certificate is signed by a trusted CA, and `verify-full`
+ *   also checks that it matches the host.
+ * - `sslrootcert`, `sslcert` and `sslkey`: paths to the CA certificates to
+ *   trust, and to the client certificate and key to present.
+ * - `sslpassword`: the passphrase for `sslkey`.
+ *
+ * Without `sslmode`, `ssl=true` (or `1`) means `verify-full`, and `ssl=false`
+ * (or `0`) means `disable`. Without either, TLS is used with `verify-full` if
+ * any certificates are given. Other values of `ssl` are rejected.
+ *
+ * @param params
+ * @param host
+ */
+function getSslConfig(
+  params: URLSearchParams,
+  host: string | undefined
+): false | ConnectionOptions {
+  const read = (name: string) => {
+    const path = params.get(name);
+    return path != null ? readFileSync(path, "utf8") : undefined;
+  };
+  const tls: ConnectionOptions = {
+    ca: read("sslrootcert"),
+    cert: read("sslcert"),
+    key: read("sslkey"),
+    passphrase: params.get("sslpassword") ?? undefined,
+  };
+
+  const ssl = params.get("ssl");
+  let useSsl = Boolean(tls.ca || tls.cert || tls.key);
+  if (ssl === "true" || ssl === "1") {
+    useSsl = true;
+  } else if (ssl === "false" || ssl === "0") {
+    useSsl = false;
+  } else if (ssl != null) {
+    throw new RangeError(`Unknown ssl value: ${ssl}`);
+  }
+  const mode = params.get("sslmode") ?? (useSsl ? "verify-full" : "disable");
+
+  switch (mode) {
+    case "disable":
+      return false;
+    case "no-verify":
+      return { ...tls, rejectUnauthorized: false };
+    case "allow":
+    case "prefer":
+    case "require":
+      if (!tls.ca) return { ...tls, rejectUnauthorized: false };
+      return { ...tls, checkServerIdentity: () => undefined };
+    case "verify-ca":
+      return { ...tls, checkServerIdentity: () => undefined };
+    case "verify-full":
+      // Check the host from the URL, because node-postgres only tells TLS
+      // about host names, and not IP addresses.
+      return {
+        ...tls,
+        checkServerIdentity: (servername, cert) =>
+          checkServerIdentity(host ?? servername, cert),
+      };
+    default:
+      throw new RangeError(`Unknown sslmode: ${mode}`);
+  }
+}
 
 /** Given a Postgres URL, construct a pool configuration */
 export function getConfigFromUrl(url: string): PoolConfig {
@@ -32,8 +108,7 @@ export function getConfigFromUrl(url: string): PoolConfig {
     user: connOpts.user,
     port: connOpts.port != null ? Number(connOpts.port) : undefined,
     database: connOpts.database || undefined,
-    // TODO: Support more SSL options.
-    ssl: connOpts.ssl ? true : false,
+    ssl: getSslConfig(parsedQuery, connOpts.host || undefined),
     application_name: connOpts.application_name,
 
     // From our URL string.
@@ -53,6 +128,203 @@ export function getConfigFromUrl(url: string): PoolConfig {
   };
 }
 
+/** The libpq environment variables we understand, and their parameters. */
+const ENVIRONMENT_VARIABLES: Record<string, string> = {
+  PGHOST: "host",
+  PGPORT: "port",
+  PGUSER: "user",
+  PGDATABASE: "dbname",
+  PGPASSWORD: "password",
+  PGSSLMODE: "sslmode",
+  PGSSLROOTCERT: "sslrootcert",
+  PGSSLCERT: "sslcert",
+  PGSSLKEY: "sslkey",
+  PGAPPNAME: "application_name",
+};
+
+/** Where libpq usually looks for the server's Unix socket. */
+const SOCKET_DIRECTORIES = ["/var/run/postgresql", "/tmp"];
+
+/**
+ * Find the host to connect to when none is given, like libpq does: the first
+ * directory with a Unix socket for `port`, or `localhost` if there is none.
+ *
+ * @param port
+ */
+function getDefaultHost(port: string): string {
+  const socketDirectory = SOCKET_DIRECTORIES.find((dir) =>
+    existsSync(join(dir, `.s.PGSQL.${port}`))
+  );
+  return socketDirectory ?? "localhost";
+}
+
+/**
+ * Read the file at `path`, or return `undefined` if it doesn't exist.
+ *
+ * @param path
+ */
+function readOptionalFile(path: string): string | undefined {
+  try {
+    return readFileSync(path, "utf8");
+  } catch (err) {
+    if (err.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Find the parameters of `service` in the text of a pg_service.conf file, or
+ * return `undefined` if it isn't defined there.
+ *
+ * @param text
+ * @param service
+ */
+function parseServiceFile(
+  text: string,
+  service: string
+): Record<string, string> | undefined {
+  let params: Record<string, string> | undefined;
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    if (line.startsWith("[")) {
+      if (params) break;
+      if (line === `[${service}]`) params = {};
+    } else if (params) {
+      const equals = line.indexOf("=");
+      if (equals < 0) {
+        throw new RangeError(`Invalid line in service file: ${line}`);
+      }
+      params[line.slice(0, equals).trim()] = line.slice(equals + 1).trim();
+    }
+  }
+  return params;
+}
+
+/**
+ * Look up the parameters of `service` like libpq does: in `PGSERVICEFILE`
+ * (default `~/.pg_service.conf`), then in `pg_service.conf` in `PGSYSCONFDIR`
+ * (default `/etc`).
+ *
+ * @param env
+ * @param service
+ */
+function getServiceParams(
+  env: NodeJS.ProcessEnv,
+  service: string
+): Record<string, string> {
+  const paths = [
+    env.PGSERVICEFILE ?? join(homedir(), ".pg_service.conf"),
+    join(env.PGSYSCONFDIR ?? "/etc", "pg_service.conf"),
+  ];
+  for (const path of paths) {
+    const text = readOptionalFile(path);
+    const params = text != null ? parseServiceFile(text, service) : undefined;
+    if (params) return params;
+  }
+  throw new RangeError(
+    `Cannot find service "${service}" in ${paths.join(" or ")}`
+  );
+}
+
+/**
+ * Split a line of a .pgpass file on its unescaped colons.
+ *
+ * @param line
+ */
+function splitPgpassLine(line: string): string[] {
+  const fields = [""];
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === "\\" && i + 1 < line.length) {
+      fields[fields.length - 1] += line[++i];
+    } else if (line[i] === ":") {
+      fields.push("");
+    } else {
+      fields[fields.length - 1] += line[i];
+    }
+  }
+  return fields;
+}
+
+/**
+ * Look up the password for a connection in `PGPASSFILE` (default
+ * `~/.pgpass`). Like libpq, we ignore the file if anyone but its owner can
+ * read it.
+ *
+ * @param env
+ * @param params The host, port, dbname and user of the connection.
+ */
+function getPgpassPassword(
+  env: NodeJS.ProcessEnv,
+  params: Record<string, string | undefined>
+): string | undefined {
+  const path = env.PGPASSFILE ?? join(homedir(), ".pgpass");
+  const text = readOptionalFile(path);
+  if (text == null || (statSync(path).mode & 0o077) !== 0) return undefined;
+
+  // libpq matches Unix sockets as "localhost", and fills in these defaults.
+  const host =
+    !params.host || params.host.startsWith("/") ? "localhost" : params.host;
+  const user = params.user ?? userInfo().username;
+  const wanted = [host, params.port ?? "5432", params.dbname ?? user, user];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith("#")) continue;
+    const fields = splitPgpassLine(line);
+    if (fields.length < 5) continue;
+    if (wanted.every((value, i) => fields[i] === "*" || fields[i] === value)) {
+      return fields.slice(4).join(":");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Given the environment, construct a pool configuration. `DATABASE_URL` is
+ * used if it's set, and otherwise the libpq variables, such as `PGHOST` and
+ * `PGUSER`. With `PGSERVICE`, the service's parameters are read from
+ * pg_service.conf, and take precedence over the other variables, like they
+ * do in libpq. Without a host, we look for a local Unix socket, and without a
+ * password, one is looked up in `.pgpass`.
+ *
+ * @param env
+ */
+export function getConfigFromEnvironment(
+  env: NodeJS.ProcessEnv = process.env
+): PoolConfig {
+  if (env.DATABASE_URL) return getConfigFromUrl(env.DATABASE_URL);
+  const variables = [...Object.keys(ENVIRONMENT_VARIABLES), "PGSERVICE"];
+  if (!variables.some((variable) => env[variable])) {
+    throw new RangeError(
+      "Cannot create a pool: neither DATABASE_URL nor any of " +
+        `${variables.join(", ")} is set`
+    );
+  }
+
+  const params: Record<string, string | undefined> = {};
+  for (const [variable, param] of Object.entries(ENVIRONMENT_VARIABLES)) {
+    if (env[variable]) params[param] = env[variable];
+  }
+  if (env.PGSERVICE) {
+    Object.assign(params, getServiceParams(env, env.PGSERVICE));
+  }
+  params.host = params.host ?? getDefaultHost(params.port ?? "5432");
+
+  return {
+    host: params.host,
+    port: params.port != null ? Number(params.port) : undefined,
+    user: params.user,
+    database: params.dbname,
+    password: params.password ?? getPgpassPassword(env, params),
+    ssl: getSslConfig(
+      new URLSearchParams(params as Record<string, string>),
+      params.host
+    ),
+    application_name: params.application_name,
+  };
+}
+
 export function getApplicationName(): string | undefined {
   try {
     const path = findRoot(process.argv[1] || process.cwd()) + "/package.json";
@@ -0,0 +1,78 @@
+import { SqlError } from "./SqlError";
+
+/** Describes a query which is about to run. */
+export interface QueryEvent {
+  /** The parameterized SQL text. */
+  sql: string;
+  /** The values of the query parameters. */
+  params: unknown[];
+  /** Was the query run inside a transaction (or savepoint)? */
+  inTransaction: boolean;
+  /**
+   * How long we waited for a connection before the query could start, in
+   * milliseconds. This is mostly time spent waiting for the pool.
+   */
+  waitMs: number;
+}
+
+/** Describes a query which completed successfully. */
+export interface QueryResultEvent extends QueryEvent {
+  /** How long the query took to run, in milliseconds. */
+  durationMs: number;
+  /** The number of rows returned or affected, if Postgres reported one. */
+  rowCount: number | null;
+  /** The SQL command, such as `SELECT` or `INSERT`, if known. */
+  command: string | null;
+  /** The notices (including warnings) raised by the query. */
+  notices: Error[];
+}
+
+/** Describes a query which failed. */
+export interface QueryErrorEvent extends QueryEvent {
+  /** How long the query ran before it failed, in milliseconds. */
+  durationMs: number;
+  /** The error which will be thrown to the caller. */
+  error: SqlError;
+}
+
+/**
+ * Callbacks which observe every query run by a SimplePostgres instance, and by
+ * every Connection derived from it. All of them are optional.
+ *
+ * Hooks are called synchronously, so they should be quick. A hook which throws
+ * doesn't change the outcome of the query: its error is emitted as a process
+ * warning instead.
+ */
+export interface QueryHooks {
+  beforeQuery?(event: QueryEvent): void;
+  afterQuery?(event: QueryResultEvent): void;
+  onError?(event: QueryErrorEvent): void;
+}
+
+/**
+ * Call the `name` hook of each of `hooks` with `event`, isolating them from
+ * the query and from each other.
+ *
+ * @param hooks
+ * @param name
+ * @param event
+ */
+export function callHooks<Name extends keyof QueryHooks>(
+  hooks: QueryHooks[],
+  name: Name,
+  event: Parameters<NonNullable<QueryHooks[Name]>>[0]
+): void {
+  for (const hook of hooks) {
+    const callback = hook[name] as ((e: typeof event) => void) | undefined;
+    try {
+      callback?.call(hook, event);
+    } catch (err) {
+      process.emitWarning(err instanceof Error ? err : String(err));
+    }
+  }
+}
+
+/** Milliseconds elapsed since `start`, which came from `process.hrtime`. */
+export function elapsedMs(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e6;
+}
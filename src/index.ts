@@ -1,5 +1,5 @@
 import { Pool, PoolConfig } from "pg";
-import { SimplePostgres } from "./SimplePostgres";
+import { ShutdownOptions, SimplePostgres } from "./SimplePostgres";
 
 /**
  * Backwards compatibility: create a simple-postgres instance given a url or
@@ -14,8 +14,63 @@ export function configure(urlOrConfig: string | PoolConfig): SimplePostgres {
     return SimplePostgres.fromPool(new Pool(urlOrConfig));
   }
 }
-export { SimplePostgres };
+export { ShutdownOptions, SimplePostgres };
 export default SimplePostgres.fromEnvironment();
-export { Connection } from "./Connection";
+export {
+  BatchOptions,
+  Connection,
+  QueryOptions,
+  TransactionBlock,
+} from "./Connection";
+export { AdvisoryLockKey } from "./advisoryLock";
 export { SqlError } from "./SqlError";
+export {
+  CheckViolationError,
+  DeadlockDetectedError,
+  ForeignKeyViolationError,
+  IntegrityConstraintViolationError,
+  NotNullViolationError,
+  SerializationFailureError,
+  TransactionRollbackError,
+  UniqueViolationError,
+} from "./sqlStateErrors";
+export {
+  CardinalityError,
+  NoColumnsError,
+  NoRowsError,
+  TooManyColumnsError,
+  TooManyRowsError,
+} from "./CardinalityError";
+export { InsertManyOptions, OnConflictOptions } from "./insertMany";
+export { NotificationHandler } from "./Listener";
+export { MigrationError } from "./MigrationError";
+export {
+  MigrateOptions,
+  Migration,
+  MigrationModule,
+  MigrationState,
+  MigrationStatus,
+  Migrator,
+  MigratorOptions,
+} from "./Migrator";
+export { prepared, PreparedQuery } from "./prepared";
+export { ReplicaOptions } from "./ReplicaSet";
+export { ShuttingDownError } from "./ShuttingDownError";
+export { HealthReport, PoolStats } from "./stats";
+export { QueryCancelledError } from "./QueryCancelledError";
+export { QueryTimeoutError } from "./QueryTimeoutError";
+export { RowValidationError, RowValidator } from "./RowValidator";
+export { IsolationLevel, TransactionOptions } from "./Transaction";
+export { RetryPolicy } from "./retry";
+export {
+  QueryErrorEvent,
+  QueryEvent,
+  QueryHooks,
+  QueryResultEvent,
+} from "./hooks";
+export {
+  createQueryLogger,
+  QueryLogEntry,
+  QueryLoggerOptions,
+} from "./queryLogger";
 export * from "selectstar";
@@ -0,0 +1,159 @@
+import { identifier, SqlLiteralParams, Template, template } from "selectstar";
+
+/** The most query parameters Postgres accepts in a single statement. */
+export const MAX_QUERY_PARAMETERS = 65535;
+
+/** What `insertMany` does with rows which conflict with existing rows. */
+export interface OnConflictOptions {
+  /**
+   * The columns of the unique index or constraint to check for conflicts.
+   * Required by `update`. If not given, any conflict counts.
+   */
+  target?: string[];
+  /**
+   * Columns to overwrite with the values from the conflicting row. If not
+   * given, conflicting rows are skipped.
+   */
+  update?: string[];
+}
+
+/** Options which control how `insertMany` inserts rows. */
+export interface InsertManyOptions {
+  /**
+   * The columns to insert. Defaults to the keys of the first row. Rows which
+   * don't have a value for a column get the column's default.
+   */
+  columns?: string[];
+  /**
+   * The most rows to insert with each statement. Defaults to as many as fit
+   * in the 65535 query parameters Postgres allows.
+   */
+  chunkSize?: number;
+  /** Columns to return from the inserted rows, or `"*"` for all of them. */
+  returning?: string[] | "*";
+  /** What to do with rows which conflict with existing rows. */
+  onConflict?: OnConflictOptions;
+  /**
+   * Insert every chunk in the same transaction, so that either all the rows
+   * are inserted or none are. Defaults to `true`.
+   */
+  transaction?: boolean;
+}
+
+/**
+ * Join templates together with commas.
+ *
+ * @param parts
+ */
+function commaSeparated(parts: Template[]): Template {
+  return parts.reduce((list, part, i) =>
+    i === 0 ? part : template`${list}, ${part}`
+  );
+}
+
+/**
+ * Quote a list of column names, and join them together with commas.
+ *
+ * @param names
+ */
+function columnList(names: string[]): Template {
+  return commaSeparated(names.map((name) => template`${identifier(name)}`));
+}
+
+/**
+ * Quote a table name, which may be qualified with a schema name.
+ *
+ * @param name
+ */
+function tableName(name: string): Template {
+  return name
+    .split(".")
+    .map((part) => template`${identifier(part)}`)
+    .reduce((qualified, part) => template`${qualified}.${part}`);
+}
+
+/**
+ * Build the `on conflict` clause for `insertMany`.
+ *
+ * @param onConflict
+ */
+function onConflictClause({ target, update }: OnConflictOptions): Template {
+  const targetList =
+    target && target.length > 0
+      ? template` (${columnList(target)})`
+      : template``;
+  if (!update || update.length === 0) {
+    return template` on conflict${targetList} do nothing`;
+  }
+  if (!target || target.length === 0) {
+    throw new RangeError("onConflict.update requires onConflict.target");
+  }
+  const assignments = update.map(
+    (c) => template`${identifier(c)} = excluded.${identifier(c)}`
+  );
+  return template` on conflict${targetList} do update set ${commaSeparated(
+    assignments
+  )}`;
+}
+
+/**
+ * Build the statements which insert `rows` into `table`, each of which
+ * inserts at most one chunk of rows.
+ *
+ * @param table
+ * @param rows
+ * @param options
+ */
+export function insertStatements(
+  table: string,
+  rows: unknown[],
+  options: InsertManyOptions
+): Template[] {
+  if (rows.length === 0) return [];
+
+  const columns =
+    options.columns ?? Object.keys(rows[0] as Record<string, unknown>);
+  if (columns.length === 0) {
+    throw new RangeError("insertMany needs at least one column to insert");
+  }
+
+  const maxChunkSize = Math.floor(MAX_QUERY_PARAMETERS / columns.length);
+  const chunkSize = options.chunkSize ?? maxChunkSize;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new RangeError(`chunkSize must be a positive integer: ${chunkSize}`);
+  } else if (chunkSize > maxChunkSize) {
+    throw new RangeError(
+      `chunkSize must be at most ${maxChunkSize} for ${columns.length} columns, to fit in ${MAX_QUERY_PARAMETERS} query parameters`
+    );
+  }
+
+  const head = template`insert into ${tableName(table)} (${columnList(
+    columns
+  )}) values `;
+  const onConflict = options.onConflict
+    ? onConflictClause(options.onConflict)
+    : template``;
+  const { returning } = options;
+  const returningClause =
+    returning === "*"
+      ? template` returning *`
+      : returning && returning.length > 0
+      ? template` returning ${columnList(returning)}`
+      : template``;
+
+  const statements: Template[] = [];
+  for (let start = 0; start < rows.length; start += chunkSize) {
+    const values = rows.slice(start, start + chunkSize).map((row) => {
+      // Spurious cast, but should be entirely safe.
+      const cells = columns.map((c) => {
+        const value = (row as Record<string, SqlLiteralParams>)[c];
+        return value === undefined ? template`default` : template`${value}`;
+      });
+      return template`(${commaSeparated(cells)})`;
+    });
+    statements.push(
+      template`${head}${commaSeparated(values)}${onConflict}${returningClause}`
+    );
+  }
+  return statements;
+}
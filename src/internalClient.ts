@@ -0,0 +1,16 @@
+import { PoolClient } from "pg";
+
+/**
+ * A node-postgres client, with the parts of its connection which we reach
+ * into but which aren't part of its type declarations.
+ */
+export type InternalClient = PoolClient & {
+  connection: {
+    /** Abandon a COPY FROM, failing it with `message`. */
+    sendCopyFail(message: string): void;
+    /** The names and SQL text of the prepared statements on the server. */
+    parsedStatements: Record<string, string>;
+    /** The socket to the server. */
+    stream: { destroy(): void };
+  };
+};
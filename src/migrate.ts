@@ -0,0 +1,75 @@
+#!/usr/bin/env node
+import { Migration, Migrator } from "./Migrator";
+import { SimplePostgres } from "./SimplePostgres";
+
+const USAGE = `Usage: simple-postgres-migrate <command> [version] [--dry-run]
+
+Commands:
+  status          Show which migrations have been applied
+  up [version]    Apply pending migrations, up to and including version
+  down [version]  Roll back to version (0 for everything), or just the latest
+
+Connects to DATABASE_URL (or the libpq PG* variables), and reads migrations
+from MIGRATIONS_DIR (default ./migrations). Applied migrations are recorded in
+MIGRATIONS_TABLE (default schema_migrations).`;
+
+/**
+ * Print what `up` or `down` did, or would have done.
+ *
+ * @param verb
+ * @param migrations
+ */
+function report(verb: string, migrations: Migration[]): void {
+  if (migrations.length === 0) console.log("Nothing to do");
+  for (const { version, name } of migrations) {
+    console.log(`${verb} ${version}_${name}`);
+  }
+}
+
+/**
+ * Run the command line in `args`, and resolve to the exit status.
+ *
+ * @param args
+ */
+async function main(args: string[]): Promise<number> {
+  const dryRun = args.includes("--dry-run");
+  const [command, version] = args.filter((arg) => arg !== "--dry-run");
+  if (!["status", "up", "down"].includes(command)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const db = SimplePostgres.fromEnvironment();
+  const migrator = new Migrator(db, {
+    directory: process.env.MIGRATIONS_DIR || "migrations",
+    table: process.env.MIGRATIONS_TABLE || undefined,
+  });
+
+  try {
+    if (command === "status") {
+      for (const m of await migrator.status()) {
+        const appliedAt = m.appliedAt ? ` (${m.appliedAt.toISOString()})` : "";
+        console.log(`${m.state.padEnd(7)} ${m.version}_${m.name}${appliedAt}`);
+      }
+    } else if (command === "up") {
+      const applied = await migrator.up({ to: version, dryRun });
+      report(dryRun ? "Would apply" : "Applied", applied);
+    } else {
+      const rolledBack = await migrator.down({ to: version, dryRun });
+      report(dryRun ? "Would roll back" : "Rolled back", rolledBack);
+    }
+    return 0;
+  } finally {
+    await db.end();
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (status) => {
+    process.exitCode = status;
+  },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,185 @@
+import { PoolClient, QueryConfig, QueryResult } from "pg";
+import { identifier, sql, SqlLiteralParams, SqlQueryObject } from "selectstar";
+import { InternalClient } from "./internalClient";
+
+/** The most prepared statements we keep on each client. */
+export const MAX_PREPARED_STATEMENTS = 100;
+
+/** A query which runs as a named prepared statement. See `prepared`. */
+export type PreparedQuery = SqlQueryObject & { name: string };
+
+/** The prepared statements we are keeping track of on a client. */
+interface ClientStatements {
+  /** The names of the statements we have run, least recently used first. */
+  names: Set<string>;
+  /** Statements to deallocate before running any more. */
+  stale: Set<string>;
+}
+
+const clientStatements = new WeakMap<PoolClient, ClientStatements>();
+
+/**
+ * The names we have picked for each template, by query text. The text of a
+ * template can vary if it interpolates identifiers or other templates, and
+ * each variation needs its own statement.
+ */
+const templateNames = new WeakMap<TemplateStringsArray, Map<string, string>>();
+
+let nextStatementNumber = 0;
+
+/**
+ * Name a statement after the template which produced it.
+ *
+ * @param strings
+ * @param text
+ */
+function templateName(strings: TemplateStringsArray, text: string): string {
+  let names = templateNames.get(strings);
+  if (!names) {
+    names = new Map();
+    templateNames.set(strings, names);
+  }
+  let name = names.get(text);
+  if (!name) {
+    name = `simple_postgres_${nextStatementNumber++}`;
+    names.set(text, name);
+  }
+  return name;
+}
+
+/**
+ * Mark a query as a prepared statement. Postgres parses and plans a prepared
+ * statement once on each connection, and reuses the plan every time the
+ * statement runs again on that connection.
+ *
+ * ```ts
+ * const user = await db.row(prepared`SELECT * FROM users WHERE id = ${id}`);
+ * const post = await db.row(prepared("find_post")`SELECT * FROM posts WHERE id = ${id}`);
+ * ```
+ *
+ * Without a name, statements are named automatically after their template.
+ * A name must only ever be used for one query text.
+ *
+ * @param name
+ */
+export function prepared(
+  name: string
+): (
+  strings: TemplateStringsArray,
+  ...params: SqlLiteralParams[]
+) => PreparedQuery;
+export function prepared(
+  strings: TemplateStringsArray,
+  ...params: SqlLiteralParams[]
+): PreparedQuery;
+export function prepared(
+  nameOrStrings: string | TemplateStringsArray,
+  ...params: SqlLiteralParams[]
+):
+  | PreparedQuery
+  | ((
+      strings: TemplateStringsArray,
+      ...params: SqlLiteralParams[]
+    ) => PreparedQuery) {
+  if (typeof nameOrStrings === "string") {
+    return (strings: TemplateStringsArray, ...params: SqlLiteralParams[]) => {
+      const { text, values } = sql(strings, ...params);
+      return { text, values, name: nameOrStrings };
+    };
+  }
+  const { text, values } = sql(nameOrStrings, ...params);
+  return { text, values, name: templateName(nameOrStrings, text) };
+}
+
+/**
+ * Does this query run as a named prepared statement?
+ *
+ * @param query
+ */
+export function isPreparedQuery(query: QueryConfig): query is PreparedQuery {
+  return typeof query.name === "string";
+}
+
+/**
+ * Postgres re-plans prepared statements after most schema changes, but it
+ * refuses to run a statement whose result columns would change. The
+ * statement has to be prepared again.
+ *
+ * @param err
+ */
+function isInvalidatedPlan(err: unknown): boolean {
+  return (
+    err instanceof Error &&
+    (err as Error & { code?: string }).code === "0A000" &&
+    err.message.includes("cached plan must not change result type")
+  );
+}
+
+/**
+ * Record that `name` is about to run on `client`, evicting the least recently
+ * used statement if there are too many, and deallocate any stale statements.
+ *
+ * @param client
+ * @param statements
+ * @param name
+ */
+async function prepare(
+  client: PoolClient,
+  statements: ClientStatements,
+  name: string
+): Promise<void> {
+  const { names, stale } = statements;
+  if (names.has(name)) {
+    names.delete(name);
+  } else if (names.size >= MAX_PREPARED_STATEMENTS) {
+    const [oldest] = names;
+    names.delete(oldest);
+    stale.add(oldest);
+  }
+  names.add(name);
+
+  const { parsedStatements } = (client as InternalClient).connection;
+  for (const staleName of Array.from(stale)) {
+    // node-postgres only knows about statements which parsed successfully.
+    if (staleName in parsedStatements) {
+      await client.query(sql`deallocate ${identifier(staleName)}`);
+      delete parsedStatements[staleName];
+    }
+    stale.delete(staleName);
+  }
+}
+
+/**
+ * Run a query as a named prepared statement on `client`. If a schema change
+ * has invalidated the statement, it is prepared and run again, unless we are
+ * in a transaction, which the failure has aborted. Then it is prepared again
+ * the next time it runs.
+ *
+ * @param client
+ * @param query
+ * @param inTransaction
+ */
+export async function queryPrepared<Row>(
+  client: PoolClient,
+  query: PreparedQuery,
+  inTransaction: boolean
+): Promise<QueryResult<Row>> {
+  let statements = clientStatements.get(client);
+  if (!statements) {
+    statements = { names: new Set(), stale: new Set() };
+    clientStatements.set(client, statements);
+  }
+
+  await prepare(client, statements, query.name);
+  try {
+    return await client.query<Row>(query);
+  } catch (err) {
+    if (!isInvalidatedPlan(err)) throw err;
+    statements.names.delete(query.name);
+    statements.stale.add(query.name);
+    if (inTransaction) throw err;
+
+    await prepare(client, statements, query.name);
+    return client.query<Row>(query);
+  }
+}
@@ -0,0 +1,119 @@
+import { inspect } from "util";
+import { QueryEvent, QueryHooks } from "./hooks";
+
+/** Options for `createQueryLogger`. */
+export interface QueryLoggerOptions {
+  /**
+   * Only log successful queries which take at least this many milliseconds.
+   * Failed queries are always logged. Defaults to 200ms when `NODE_ENV` is
+   * `production`, and to 0 (log everything) otherwise.
+   */
+  slowQueryMs?: number;
+  /**
+   * How to log query parameters. By default (`true`) every parameter is
+   * replaced by `"[REDACTED]"`. Pass `false` to log parameters as they are,
+   * or a function which returns the parameters to log.
+   */
+  redact?: boolean | ((params: unknown[], event: QueryEvent) => unknown[]);
+  /** Write a single line of JSON. Defaults to writing to stdout. */
+  write?: (line: string) => void;
+}
+
+/** The JSON object written for each query. */
+export interface QueryLogEntry {
+  level: "info" | "warn" | "error";
+  msg: "query" | "slow query" | "query failed";
+  sql: string;
+  params: unknown[];
+  inTransaction: boolean;
+  waitMs: number;
+  durationMs: number;
+  rowCount?: number | null;
+  command?: string | null;
+  code?: string;
+  error?: string;
+}
+
+const PRODUCTION_SLOW_QUERY_MS = 200;
+
+/**
+ * Collapse the whitespace in a query, so that our multi-line template literals
+ * fit on a single line.
+ *
+ * @param sql
+ */
+export function normalizeSql(sql: string): string {
+  return sql.replace(/\s+/g, " ").trim();
+}
+
+/** Make parameters safe for `JSON.stringify`, which rejects `bigint`. */
+function jsonSafe(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (Buffer.isBuffer(value)) return inspect(value);
+  return value;
+}
+
+/**
+ * Create hooks which log every query as a line of JSON. Pass the result to
+ * `SimplePostgres.use`:
+ *
+ * ```ts
+ * db.use(createQueryLogger({ slowQueryMs: 500 }));
+ * ```
+ *
+ * @param options
+ */
+export function createQueryLogger(
+  options: QueryLoggerOptions = {}
+): QueryHooks {
+  const slowQueryMs =
+    options.slowQueryMs ??
+    (process.env.NODE_ENV === "production" ? PRODUCTION_SLOW_QUERY_MS : 0);
+  const redact = options.redact ?? true;
+  const write =
+    options.write ?? ((line: string) => process.stdout.write(line + "\n"));
+
+  function logParams(event: QueryEvent): unknown[] {
+    if (redact === true) return event.params.map(() => "[REDACTED]");
+    if (redact === false) return event.params.map(jsonSafe);
+    return redact(event.params, event).map(jsonSafe);
+  }
+
+  function log(entry: QueryLogEntry) {
+    write(JSON.stringify(entry));
+  }
+
+  function baseEntry(event: QueryEvent & { durationMs: number }) {
+    return {
+      sql: normalizeSql(event.sql),
+      params: logParams(event),
+      inTransaction: event.inTransaction,
+      waitMs: event.waitMs,
+      durationMs: event.durationMs,
+    };
+  }
+
+  return {
+    afterQuery(event) {
+      if (event.durationMs < slowQueryMs) return;
+      const slow = slowQueryMs > 0;
+      log({
+        level: slow ? "warn" : "info",
+        msg: slow ? "slow query" : "query",
+        ...baseEntry(event),
+        rowCount: event.rowCount,
+        command: event.command,
+      });
+    },
+
+    onError(event) {
+      log({
+        level: "error",
+        msg: "query failed",
+        ...baseEntry(event),
+        code: event.error.code,
+        error: event.error.pgError?.message,
+      });
+    },
+  };
+}
@@ -0,0 +1,111 @@
+import { SqlError } from "./SqlError";
+
+/** Options which control how, and how often, failed work is retried. */
+export interface RetryPolicy {
+  /** The maximum number of attempts, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** The delay before the first retry. Doubles on every retry. Defaults to 50ms. */
+  baseDelayMs?: number;
+  /** The maximum delay between two attempts. Defaults to 5000ms. */
+  maxDelayMs?: number;
+  /**
+   * Decide whether a failed attempt should be retried. `attempt` is the number
+   * of the attempt which just failed, starting at 1.
+   */
+  shouldRetry?: (err: SqlError, attempt: number) => boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 50;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+/**
+ * Does this error mean that a transaction lost a race with another one, and
+ * that running it again might succeed? This is true for serialization
+ * failures and deadlocks.
+ *
+ * @param err
+ */
+export function isTransactionConflict(err: SqlError): boolean {
+  return err.code === "40001" || err.code === "40P01";
+}
+
+/** Error codes which mean that we lost, or couldn't make, a connection. */
+const CONNECTION_FAILURE_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  // admin_shutdown, crash_shutdown and cannot_connect_now.
+  "57P01",
+  "57P02",
+  "57P03",
+]);
+
+/**
+ * Does this error mean that the connection to Postgres failed, for example
+ * because Postgres is restarting or failing over, so that running the query
+ * again on a new connection might succeed? This is true for connection
+ * errors from the network, for SQLSTATE class 08 (connection exceptions) and
+ * for Postgres shutting down or starting up.
+ *
+ * @param err
+ */
+export function isConnectionFailure(err: SqlError): boolean {
+  const { code } = err;
+  if (code && (CONNECTION_FAILURE_CODES.has(code) || code.startsWith("08"))) {
+    return true;
+  }
+  // node-postgres reports a dropped connection without a code.
+  return /^Connection terminated/.test(err.pgError?.message ?? "");
+}
+
+/**
+ * How long to wait before the next attempt. This uses exponential backoff
+ * with "full jitter", so that clients which failed together don't all retry
+ * together.
+ *
+ * @param policy
+ * @param attempt The number of the attempt which just failed, starting at 1.
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  return Math.random() * Math.min(max, base * 2 ** (attempt - 1));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `work`, retrying it according to `policy` whenever it fails with an
+ * error that `isRetryable` accepts. If the policy has its own `shouldRetry`,
+ * that is used instead.
+ *
+ * @param policy
+ * @param isRetryable
+ * @param work Receives the attempt number, starting at 1.
+ */
+export async function withRetry<Result>(
+  policy: RetryPolicy,
+  isRetryable: (err: SqlError) => boolean,
+  work: (attempt: number) => Promise<Result>
+): Promise<Result> {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const shouldRetry = policy.shouldRetry ?? isRetryable;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await work(attempt);
+    } catch (err) {
+      if (
+        attempt >= maxAttempts ||
+        !(err instanceof SqlError) ||
+        !shouldRetry(err, attempt)
+      ) {
+        throw err;
+      }
+      await sleep(retryDelay(policy, attempt));
+    }
+  }
+}
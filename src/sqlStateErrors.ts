@@ -0,0 +1,59 @@
+import { SqlError } from "./SqlError";
+
+/** An error in SQLSTATE class 23, "Integrity Constraint Violation". */
+export class IntegrityConstraintViolationError extends SqlError {}
+
+/** SQLSTATE 23505: a row would duplicate a unique key. */
+export class UniqueViolationError extends IntegrityConstraintViolationError {}
+
+/** SQLSTATE 23503: a row would reference a missing row, or be orphaned. */
+export class ForeignKeyViolationError extends IntegrityConstraintViolationError {}
+
+/** SQLSTATE 23502: a `not null` column would be null. */
+export class NotNullViolationError extends IntegrityConstraintViolationError {}
+
+/** SQLSTATE 23514: a row would fail a `check` constraint. */
+export class CheckViolationError extends IntegrityConstraintViolationError {}
+
+/** An error in SQLSTATE class 40, "Transaction Rollback". */
+export class TransactionRollbackError extends SqlError {}
+
+/** SQLSTATE 40001: a transaction conflicted with a concurrent transaction. */
+export class SerializationFailureError extends TransactionRollbackError {}
+
+/** SQLSTATE 40P01: a transaction was chosen as the victim of a deadlock. */
+export class DeadlockDetectedError extends TransactionRollbackError {}
+
+const errorClassesByCode: Record<string, typeof SqlError> = {
+  "23505": UniqueViolationError,
+  "23503": ForeignKeyViolationError,
+  "23502": NotNullViolationError,
+  "23514": CheckViolationError,
+  "40001": SerializationFailureError,
+  "40P01": DeadlockDetectedError,
+};
+
+const errorClassesByClass: Record<string, typeof SqlError> = {
+  "23": IntegrityConstraintViolationError,
+  "40": TransactionRollbackError,
+};
+
+/**
+ * Create a `SqlError`, using the most specific subclass we have for the
+ * SQLSTATE code reported by Postgres.
+ *
+ * @param args
+ */
+export function createSqlError(args: {
+  sql?: string;
+  params?: unknown[];
+  pgError?: Error;
+  notices?: Error[];
+}): SqlError {
+  const code = (args.pgError as { code?: unknown } | undefined)?.code;
+  const ErrorClass =
+    (typeof code === "string" &&
+      (errorClassesByCode[code] || errorClassesByClass[code.slice(0, 2)])) ||
+    SqlError;
+  return new ErrorClass(args);
+}
@@ -0,0 +1,115 @@
+import { Pool } from "pg";
+import { QueryErrorEvent, QueryHooks } from "./hooks";
+
+/** A snapshot of a SimplePostgres instance's pool and queries. */
+export interface PoolStats {
+  /** The number of clients in the pool, idle or checked out. */
+  total: number;
+  /** The number of clients in the pool which aren't checked out. */
+  idle: number;
+  /** The number of callers waiting to check out a client. */
+  waiting: number;
+  /** The number of times a client has been checked out. */
+  checkouts: number;
+  /** The total time spent waiting to check out clients, in milliseconds. */
+  checkoutWaitMs: number;
+  /** The number of queries which have been run. */
+  queries: number;
+  /** The number of queries which have failed. */
+  errors: number;
+  /**
+   * The number of queries which have failed with an error from Postgres, by
+   * SQLSTATE class: the first two characters of the code, such as `23` for
+   * integrity constraint violations.
+   */
+  errorsByClass: Record<string, number>;
+  /**
+   * The number of queries which have failed without a SQLSTATE code, such as
+   * those whose connection was lost (`ECONNRESET`).
+   */
+  otherErrors: number;
+}
+
+/** The result of a successful `SimplePostgres.health` probe. */
+export interface HealthReport {
+  /** The version of the Postgres server, such as `13.1`. */
+  serverVersion: string;
+  /**
+   * How long the probe took, in milliseconds, including waiting to check out
+   * a client.
+   */
+  latencyMs: number;
+  /** Is the server a standby, which is still recovering from a primary? */
+  inRecovery: boolean;
+}
+
+/** What a SQLSTATE code, such as `23505`, looks like. */
+const SQLSTATE = /^[0-9A-Z]{5}$/;
+
+/**
+ * Hooks which count the queries run by a SimplePostgres instance and the
+ * errors they fail with, along with how long it waits for its pool.
+ */
+export class StatsCollector implements QueryHooks {
+  private checkouts: number;
+  private checkoutWaitMs: number;
+  private queries: number;
+  private errors: number;
+  private errorsByClass: Record<string, number>;
+  private otherErrors: number;
+
+  constructor() {
+    this.checkouts = 0;
+    this.checkoutWaitMs = 0;
+    this.queries = 0;
+    this.errors = 0;
+    this.errorsByClass = {};
+    this.otherErrors = 0;
+  }
+
+  /**
+   * Record that we waited `waitMs` to check out a client.
+   *
+   * @param waitMs
+   */
+  recordCheckout(waitMs: number): void {
+    this.checkouts++;
+    this.checkoutWaitMs += waitMs;
+  }
+
+  beforeQuery(): void {
+    this.queries++;
+  }
+
+  onError({ error }: QueryErrorEvent): void {
+    this.errors++;
+    // Node's socket errors have codes too, such as ECONNRESET, which aren't
+    // SQLSTATEs.
+    const { code } = error;
+    if (code && SQLSTATE.test(code)) {
+      const sqlClass = code.slice(0, 2);
+      this.errorsByClass[sqlClass] = (this.errorsByClass[sqlClass] ?? 0) + 1;
+    } else {
+      this.otherErrors++;
+    }
+  }
+
+  /**
+   * Describe `pool` and everything we have counted so far.
+   *
+   * @param pool
+   */
+  stats(pool: Pool): PoolStats {
+    return {
+      total: pool.totalCount,
+      idle: pool.idleCount,
+      waiting: pool.waitingCount,
+      checkouts: this.checkouts,
+      checkoutWaitMs: this.checkoutWaitMs,
+      queries: this.queries,
+      errors: this.errors,
+      errorsByClass: { ...this.errorsByClass },
+      otherErrors: this.otherErrors,
+    };
+  }
+}
@@ -1,6 +1,39 @@
 import pg, { Pool } from "pg";
 import test from "blue-tape";
-import db, { sql, configure } from "../src/index";
+import { promises as fs } from "fs";
+import { AddressInfo, createServer, Socket } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pipeline as pipelineCallback, Readable } from "stream";
+import { promisify } from "util";
+import db, {
+  sql,
+  configure,
+  createQueryLogger,
+  NoColumnsError,
+  NoRowsError,
+  CheckViolationError,
+  ForeignKeyViolationError,
+  IntegrityConstraintViolationError,
+  MigrationError,
+  Migrator,
+  NotNullViolationError,
+  prepared,
+  SerializationFailureError,
+  ShuttingDownError,
+  SimplePostgres,
+  SqlError,
+  UniqueViolationError,
+  QueryCancelledError,
+  QueryTimeoutError,
+  RowValidationError,
+  TooManyColumnsError,
+  TooManyRowsError,
+} from "../src/index";
+import { getConfigFromEnvironment, getConfigFromUrl } from "../src/configure";
+import { StatsCollector } from "../src/stats";
+
+const pipeline = promisify(pipelineCallback);
 
 /** How many connections are currently in this pool? */
 function countConnections(pool: Pool) {
@@ -24,6 +57,14 @@ function escapeRegExp(string: string): string {
   return string.replace(/[.*+\-?^${}()|[\]\\]/g, "\\$&"); // $& means the whole matched string
 }
 
+/** Wait until `predicate` is true, or give up after `timeoutMs`. */
+async function waitFor(predicate: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
 test("db.connection", async (t) => {
   await db.connection(async (c) => {
     await c.query`SET statement_timeout=123456789`;
@@ -127,6 +168,153 @@ test("db.column (template string)", async (t) => {
   );
 });
 
+test("db.one", async (t) => {
+  t.deepEqual(
+    await db.one`select ${1}::int as a`,
+    { a: 1 },
+    "should return a single object"
+  );
+
+  try {
+    await db.one`select * from generate_series(1, 0) g`;
+    t.fail("should not accept an empty result");
+  } catch (err) {
+    t.ok(err instanceof NoRowsError, "should throw NoRowsError");
+    t.equal(err.sql, "select * from generate_series(1, 0) g");
+  }
+
+  try {
+    await db.one`select * from generate_series(1, ${3}::int) g`;
+    t.fail("should not accept several rows");
+  } catch (err) {
+    t.ok(err instanceof TooManyRowsError, "should throw TooManyRowsError");
+    t.equal(err.rowCount, 3, "should report the number of rows");
+    t.deepEqual(err.params, [3], "should capture the query parameters");
+    t.equal(
+      err.message,
+      "SQL Error: expected at most one row, but the query returned 3 rows\nselect * from generate_series(1, $1::int) g\nQuery parameters:\n  $1: number 3"
+    );
+  }
+});
+
+test("db.maybeOne", async (t) => {
+  t.deepEqual(await db.maybeOne`select 1 as a`, { a: 1 });
+  t.equal(
+    await db.maybeOne`select * from generate_series(1, 0) g`,
+    undefined,
+    "should return undefined for an empty result"
+  );
+
+  try {
+    await db.maybeOne`select * from generate_series(1, 2) g`;
+    t.fail("should not accept several rows");
+  } catch (err) {
+    t.ok(err instanceof TooManyRowsError, "should throw TooManyRowsError");
+  }
+});
+
+test("db.oneColumn", async (t) => {
+  t.deepEqual(await db.oneColumn`select * from generate_series(1, 3)`, [
+    1,
+    2,
+    3,
+  ]);
+  t.deepEqual(
+    await db.oneColumn`select * from generate_series(1, 0)`,
+    [],
+    "should handle empty results"
+  );
+
+  try {
+    await db.oneColumn`select 1 as a, 2 as b`;
+    t.fail("should not accept several columns");
+  } catch (err) {
+    t.ok(
+      err instanceof TooManyColumnsError,
+      "should throw TooManyColumnsError"
+    );
+    t.equal(err.columnCount, 2, "should report the number of columns");
+  }
+
+  try {
+    await db.oneColumn`select`;
+    t.fail("should not accept no columns");
+  } catch (err) {
+    t.ok(err instanceof NoColumnsError, "should throw NoColumnsError");
+    t.match(err.message, /returned no columns/, "should explain the error");
+  }
+});
+
+test("db.oneValue", async (t) => {
+  t.equal(await db.oneValue`select ${1}::int`, 1);
+
+  const badQueries = [
+    [sql`select 1 where false`, NoRowsError],
+    [sql`select * from generate_series(1, 2)`, TooManyRowsError],
+    [sql`select 1, 2`, TooManyColumnsError],
+  ] as const;
+  for (const [q, errorClass] of badQueries) {
+    try {
+      await db.oneValue(q);
+      t.fail(`should reject ${q.text}`);
+    } catch (err) {
+      t.ok(err instanceof errorClass, `should throw ${errorClass.name}`);
+    }
+  }
+});
+
+/** A minimal hand-rolled validator, shaped like a zod schema. */
+const GRow = {
+  parse(input: unknown): { g: number } {
+    const g = (input as { g?: unknown }).g;
+    if (typeof g !== "number" || g > 2) throw new Error(`bad g: ${g}`);
+    return { g };
+  },
+};
+
+test("db.rows (with validator)", async (t) => {
+  t.deepEqual(
+    await db.rows(GRow, sql`select * from generate_series(1, 2) g`),
+    [{ g: 1 }, { g: 2 }],
+    "should return validated rows"
+  );
+
+  try {
+    await db.rows(GRow, sql`select * from generate_series(1, ${3}::int) g`);
+    t.fail("should reject invalid rows");
+  } catch (err) {
+    t.ok(err instanceof RowValidationError, "should throw RowValidationError");
+    t.equal(err.rowIndex, 2, "should report the index of the bad row");
+    t.equal(
+      err.message,
+      "SQL Error: row 2 failed validation: bad g: 3\nselect * from generate_series(1, $1::int) g\nQuery parameters:\n  $1: number 3"
+    );
+  }
+});
+
+test("db.value (with validator)", async (t) => {
+  const Text = {
+    parse(input: unknown): string {
+      if (typeof input !== "string") throw new Error("not a string");
+      return input;
+    },
+  };
+  t.equal(await db.value(Text, sql`select 'a'::text`), "a");
+
+  try {
+    await db.value(Text, sql`select 1`);
+    t.fail("should reject invalid values");
+  } catch (err) {
+    t.ok(err instanceof RowValidationError, "should throw RowValidationError");
+  }
+
+  t.equal(
+    await db.value(Text, sql`select 'a'::text where false`),
+    undefined,
+    "should not validate an empty result"
+  );
+});
+
 test("successful transaction", async (t) => {
   await db.query`drop table if exists beep`;
   await db.query`create table beep (id integer)`;
@@ -190,6 +378,75 @@ test("bad connection url", async (t) => {
   }
 });
 
+test("read replicas", async (t) => {
+  const replicated = SimplePostgres.fromUrls(
+    "postgres://postgres@db:5432/postgres?application_name=primary",
+    [
+      "postgres://example/postgres",
+      "postgres://postgres@db:5432/postgres?application_name=replica",
+    ],
+    { readFromReplicas: true }
+  );
+  const applicationName = sql`select current_setting('application_name') as name`;
+
+  try {
+    t.equal(
+      await replicated.value(applicationName),
+      "replica",
+      "should read from a replica we can connect to"
+    );
+    t.equal(
+      await replicated.replica.value(applicationName),
+      "replica",
+      "should skip replicas which have been ejected"
+    );
+    t.equal(
+      (await replicated.query(applicationName)).rows[0].name,
+      "primary",
+      "should run other queries on the primary"
+    );
+    t.equal(
+      await replicated.transaction((tx) => tx.value(applicationName)),
+      "primary",
+      "should run transactions on the primary"
+    );
+    t.equal(
+      await replicated.connection((conn) => conn.value(applicationName)),
+      "primary",
+      "should run connections on the primary"
+    );
+  } finally {
+    await replicated.end();
+  }
+});
+
+test("read replicas which don't answer", async (t) => {
+  // A server which accepts connections, but never says anything.
+  const sockets: Socket[] = [];
+  const silent = createServer((socket) => sockets.push(socket));
+  await new Promise<void>((resolve) => silent.listen(0, () => resolve()));
+  const { port } = silent.address() as AddressInfo;
+  const replicated = SimplePostgres.fromUrls(
+    "postgres://postgres@db:5432/postgres",
+    [`postgres://postgres@localhost:${port}/postgres`],
+    { connectTimeoutMs: 100 }
+  );
+
+  try {
+    const start = Date.now();
+    t.equal(
+      await replicated.replica.value`select 1`,
+      1,
+      "should fall back to the primary"
+    );
+    t.ok(Date.now() - start < 5000, "should stop waiting for the replica");
+  } finally {
+    sockets.forEach((socket) => socket.destroy());
+    silent.close();
+    await replicated.end();
+  }
+});
+
 test("bad query", async (t) => {
   try {
     await db.query`not a real sql query lol`;
@@ -197,7 +454,7 @@ test("bad query", async (t) => {
   } catch (err) {
     t.equal(
       err.message,
-      'SQL Error: syntax error at or near "not"\nnot a real sql query lol',
+      'SQL Error: syntax error at or near "not"\nat line 1, column 1:\n> 1 | not a real sql query lol\n    | ^',
       "should throw syntax error"
     );
   }
@@ -210,12 +467,70 @@ test("bad query with params", async (t) => {
   } catch (err) {
     t.equal(
       err.message,
-      'SQL Error: relation "imaginary_table" does not exist\nSELECT * FROM imaginary_table WHERE id = $1 AND imaginary = $2\nQuery parameters:\n  $1: number 1\n  $2: boolean true',
+      'SQL Error: relation "imaginary_table" does not exist\nat line 1, column 15:\n> 1 | SELECT * FROM imaginary_table WHERE id = $1 AND imaginary = $2\n    |               ^\nQuery parameters:\n  $1: number 1\n  $2: boolean true',
       "should throw syntax error"
     );
   }
 });
 
+test("bad query on many lines", async (t) => {
+  try {
+    await db.query`
+      SELECT g
+      FROM generate_series(1, 3) g
+      WHERE g > 1
+        AND nope = ${1}
+      ORDER BY g
+      LIMIT 1
+    `;
+    t.fail("should not be able to execute an invalid query");
+  } catch (err) {
+    t.equal(
+      err.message,
+      [
+        'SQL Error: column "nope" does not exist',
+        "at line 5, column 13:",
+        "  2 | SELECT g",
+        "  3 | FROM generate_series(1, 3) g",
+        "  4 | WHERE g > 1",
+        "> 5 |   AND nope = $1",
+        "    |       ^",
+        "  6 | ORDER BY g",
+        "  7 | LIMIT 1",
+        "Query parameters:",
+        "  $1: number 1",
+      ].join("\n"),
+      "should point at the error"
+    );
+  }
+});
+
+test("notices on successful queries", async (t) => {
+  const received: string[] = [];
+  const conn = db.withOptions({
+    onNotice: (notice, { sql }) => received.push(`${notice.message}: ${sql}`),
+  });
+  await conn.query`DO language plpgsql $$ BEGIN RAISE NOTICE 'hello'; END $$`;
+  t.deepEqual(received, [
+    "hello: DO language plpgsql $$ BEGIN RAISE NOTICE 'hello'; END $$",
+  ]);
+});
+
+test("notices from concurrent queries", async (t) => {
+  await db.connection(async (c) => {
+    const a: string[] = [];
+    const b: string[] = [];
+    await Promise.all([
+      c.withOptions({ onNotice: (n) => a.push(n.message) })
+        .query`DO language plpgsql $$ BEGIN RAISE NOTICE 'a'; PERFORM pg_sleep(0.1); RAISE NOTICE 'a'; END $$`,
+      c.withOptions({ onNotice: (n) => b.push(n.message) })
+        .query`DO language plpgsql $$ BEGIN RAISE NOTICE 'b'; END $$`,
+    ]);
+    t.deepEqual(a, ["a", "a"], "should only see notices from its own query");
+    t.deepEqual(b, ["b"], "should only see notices from its own query");
+  });
+});
+
 test("error with notice", async (t) => {
   const q = sql`DO language plpgsql $$ BEGIN RAISE NOTICE 'notice'; SELECT '1.0'::int; END $$`;
 
@@ -253,6 +568,64 @@ test("error with multiple notices", async (t) => {
   }
 });
 
+test("error fields", async (t) => {
+  try {
+    await db.query`select * from imaginary_table`;
+    t.fail("should not be able to execute an invalid query");
+  } catch (err) {
+    t.ok(err instanceof SqlError, "should throw SqlError");
+    t.equal(err.code, "42P01", "should expose the SQLSTATE");
+    t.equal(err.position, 15, "should expose the position");
+  }
+});
+
+test("error subclasses", async (t) => {
+  await db.query`drop table if exists error_parent, error_child`;
+  await db.query`create table error_parent (id int primary key)`;
+  await db.query`create table error_child (
+    id int not null check (id > 0),
+    parent_id int references error_parent (id)
+  )`;
+  await db.query`insert into error_parent (id) values (1)`;
+
+  const cases = [
+    [sql`insert into error_parent (id) values (1)`, UniqueViolationError],
+    [
+      sql`insert into error_child (id, parent_id) values (1, 2)`,
+      ForeignKeyViolationError,
+    ],
+    [sql`insert into error_child (id) values (null)`, NotNullViolationError],
+    [sql`insert into error_child (id) values (-1)`, CheckViolationError],
+    [
+      sql`DO language plpgsql $$ BEGIN RAISE EXCEPTION 'conflict' USING ERRCODE = 'serialization_failure'; END $$`,
+      SerializationFailureError,
+    ],
+  ] as const;
+  for (const [q, errorClass] of cases) {
+    try {
+      await db.query(q);
+      t.fail(`should reject ${q.text}`);
+    } catch (err) {
+      t.ok(err instanceof errorClass, `should throw ${errorClass.name}`);
+      t.ok(err instanceof SqlError, "should still be a SqlError");
+    }
+  }
+
+  try {
+    await db.query`insert into error_parent (id) values (1)`;
+  } catch (err) {
+    t.ok(err instanceof IntegrityConstraintViolationError);
+    t.equal(
+      err.constraint,
+      "error_parent_pkey",
+      "should expose the constraint"
+    );
+    t.equal(err.table, "error_parent", "should expose the table");
+    t.equal(err.schema, "public", "should expose the schema");
+    t.equal(err.detail, "Key (id)=(1) already exists.");
+  }
+});
+
 test("bad sql in transaction", async (t) => {
   // db.setErrorHandler((e) => {
   //   console.log("expected error", e);
@@ -280,6 +653,40 @@ test("bad sql in transaction", async (t) => {
   );
 });
 
+test("prepared statements", async (t) => {
+  await db.connection(async (conn) => {
+    const findNumber = (n: number) =>
+      conn.value<number>(prepared`select ${n}::int as n`);
+    t.equal(await findNumber(1), 1);
+    t.equal(await findNumber(2), 2, "should reuse the statement");
+    t.equal(
+      await conn.value(
+        prepared(
+          "test_named"
+        )`select count(*)::int from pg_prepared_statements where name like 'simple_postgres_%'`
+      ),
+      1,
+      "should name statements after their template"
+    );
+    t.deepEqual(
+      await conn.column`select name from pg_prepared_statements where name = 'test_named'`,
+      ["test_named"],
+      "should use the name given"
+    );
+
+    await conn.query`create temporary table test_prepared (a int)`;
+    await conn.query`insert into test_prepared values (1)`;
+    const selectAll = () => conn.row(prepared`select * from test_prepared`);
+    t.deepEqual(await selectAll(), { a: 1 });
+    await conn.query`alter table test_prepared add column b int default 2`;
+    t.deepEqual(
+      await selectAll(),
+      { a: 1, b: 2 },
+      "should prepare statements again after the schema changes"
+    );
+  });
+});
+
 test("basic query stream", async (t) => {
   const stream = await db.stream`select * from generate_series(1, 3) g`;
 
@@ -290,6 +697,805 @@ test("basic query stream", async (t) => {
   }
 });
 
+test("notices from streams", async (t) => {
+  await db.query`
+    create or replace function test_stream_notice() returns int
+    language plpgsql as $$ begin raise notice 'streaming'; return 1; end $$
+  `;
+  const received: string[] = [];
+  const reported: string[] = [];
+  const stopObserving = db.use({
+    afterQuery: ({ notices }) =>
+      reported.push(...notices.map((n) => n.message)),
+  });
+  const conn = db.withOptions({
+    onNotice: (notice) => received.push(notice.message),
+  });
+
+  try {
+    for await (const row of await conn.stream`select test_stream_notice()`) {
+      t.deepEqual(row, { test_stream_notice: 1 });
+    }
+    const source = await conn.copyTo`copy (select test_stream_notice()) to stdout`;
+    for await (const chunk of source) {
+      t.equal(chunk.toString(), "1\n");
+    }
+    await waitFor(() => reported.length === 2);
+  } finally {
+    stopObserving();
+  }
+  t.deepEqual(received, ["streaming", "streaming"], "should call onNotice");
+  t.deepEqual(reported, ["streaming", "streaming"], "should report notices");
+});
+
+test("query stream (holding its connection)", async (t) => {
+  const busy = () => db.pool.totalCount - db.pool.idleCount;
+  const before = busy();
+
+  const stream = await db.stream`select * from generate_series(1, 1000) g`;
+  t.equal(busy(), before + 1, "should hold a connection while open");
+  for await (const it of stream) {
+    t.deepEqual(it, { g: 1 });
+    break;
+  }
+  await waitFor(() => busy() === before);
+  t.equal(busy(), before, "should release the connection when destroyed");
+
+  const failing = await db.stream`select 1 / (g - 3) from generate_series(1, 5) g`;
+  try {
+    for await (const it of failing) {
+      t.ok(it, "should emit rows before the error");
+    }
+    t.fail("should fail mid-stream");
+  } catch (err) {
+    t.ok(err instanceof SqlError, "should throw SqlError");
+    t.equal(err.code, "22012", "should expose the SQLSTATE");
+    t.equal(err.sql, "select 1 / (g - 3) from generate_series(1, 5) g");
+  }
+  await waitFor(() => busy() === before);
+  t.equal(busy(), before, "should release the connection after an error");
+  t.equal(await db.value`select 1`, 1, "should leave the pool usable");
+});
+
+test("query stream (with validator)", async (t) => {
+  const stream = await db.stream(
+    GRow,
+    sql`select * from generate_series(1, 3) g`
+  );
+
+  const seen: unknown[] = [];
+  try {
+    for await (const it of stream) {
+      seen.push(it);
+    }
+    t.fail("should reject invalid rows");
+  } catch (err) {
+    t.ok(err instanceof RowValidationError, "should throw RowValidationError");
+    t.equal(err.rowIndex, 2, "should report the index of the bad row");
+  }
+  t.deepEqual(seen, [{ g: 1 }, { g: 2 }], "should emit the valid rows");
+});
+
+test("db.batches", async (t) => {
+  const batches: unknown[] = [];
+  for await (const batch of db.batches`select * from generate_series(1, ${5}::int) g`(
+    { size: 2 }
+  )) {
+    batches.push(batch);
+  }
+  t.deepEqual(
+    batches,
+    [[{ g: 1 }, { g: 2 }], [{ g: 3 }, { g: 4 }], [{ g: 5 }]],
+    "should return the rows in batches"
+  );
+
+  try {
+    for await (const batch of db.batches(
+      sql`select * from generate_series(1, 5) g`
+    )({ size: 2 })) {
+      throw new Error(`stop at ${batch.length}`);
+    }
+  } catch (err) {
+    t.equal(err.message, "stop at 2", "should rethrow errors from the loop");
+  }
+  t.equal(
+    db.pool.idleCount,
+    db.pool.totalCount,
+    "should release the connection"
+  );
+
+  try {
+    for await (const batch of db.batches`select * from bogus`()) {
+      t.fail(`should not return ${batch}`);
+    }
+  } catch (err) {
+    t.ok(err instanceof SqlError, "should throw SqlError");
+  }
+});
+
+test("db.batches (breaking out early in a transaction)", async (t) => {
+  await db.transaction(async (trx) => {
+    for await (const batch of trx.batches`select * from generate_series(1, 5) g`(
+      { size: 2 }
+    )) {
+      t.deepEqual(batch, [{ g: 1 }, { g: 2 }]);
+      break;
+    }
+    t.deepEqual(
+      await trx.column`select name from pg_cursors`,
+      [],
+      "should close the cursor"
+    );
+  });
+});
+
+test("copy from and copy to", async (t) => {
+  await db.query`drop table if exists copy_test`;
+  await db.query`create table copy_test (id int, name text)`;
+
+  const sink = await db.copyFrom`copy copy_test from stdin with (format csv)`;
+  await pipeline(Readable.from(["1,alice\n", "2,bob\n"]), sink);
+
+  t.deepEqual(
+    await db.rows`select * from copy_test order by id`,
+    [
+      { id: 1, name: "alice" },
+      { id: 2, name: "bob" },
+    ],
+    "should load the data"
+  );
+
+  const source = await db.copyTo`copy (select * from copy_test order by id) to stdout with (format csv)`;
+  let csv = "";
+  for await (const chunk of source) {
+    csv += chunk.toString();
+  }
+  t.equal(csv, "1,alice\n2,bob\n", "should export the data");
+});
+
+test("copy from (bad data in a transaction)", async (t) => {
+  await db.query`drop table if exists copy_test`;
+  await db.query`create table copy_test (id int)`;
+
+  try {
+    await db.transaction(async (trx) => {
+      await trx.query`insert into copy_test (id) values (1)`;
+      const sink = await trx.copyFrom`copy copy_test from stdin`;
+      await pipeline(Readable.from(["2\n", "three\n"]), sink);
+    });
+    t.fail("should reject bad data");
+  } catch (err) {
+    t.ok(err instanceof SqlError, "should throw SqlError");
+    t.equal(err.code, "22P02", "should expose the SQLSTATE");
+  }
+  t.deepEqual(
+    await db.column`select id from copy_test`,
+    [],
+    "should roll back the transaction"
+  );
+});
+
+test("copy from (destroyed part way through)", async (t) => {
+  await db.query`drop table if exists copy_test`;
+  await db.query`create table copy_test (id int)`;
+
+  const expectedConnections = countConnections(db.pool);
+  try {
+    const sink = await db.copyFrom`copy copy_test from stdin`;
+    await pipeline(
+      Readable.from(
+        (async function* () {
+          yield "1\n";
+          throw new Error("source failed");
+        })()
+      ),
+      sink
+    );
+    t.fail("should reject");
+  } catch (err) {
+    t.equal(err.message, "source failed", "should reject with source error");
+  }
+  t.deepEqual(
+    await db.column`select id from copy_test`,
+    [],
+    "should not load anything"
+  );
+  t.equal(
+    countConnections(db.pool),
+    expectedConnections,
+    "should keep the connection in the pool"
+  );
+});
+
+test("db.insertMany", async (t) => {
+  await db.query`drop table if exists insert_test`;
+  await db.query`create table insert_test (
+    id int primary key,
+    name text not null default 'anonymous'
+  )`;
+
+  const rows = [1, 2, 3, 4, 5].map((id) => ({ id, name: `user ${id}` }));
+  t.deepEqual(
+    await db.insertMany("insert_test", rows, {
+      chunkSize: 2,
+      returning: ["id"],
+    }),
+    [1, 2, 3, 4, 5].map((id) => ({ id })),
+    "should return the inserted rows from every chunk"
+  );
+  t.deepEqual(
+    await db.insertMany("public.insert_test", [{ id: 6 }], {
+      columns: ["id", "name"],
+      returning: "*",
+    }),
+    [{ id: 6, name: "anonymous" }],
+    "should use defaults for missing values"
+  );
+  t.deepEqual(
+    await db.insertMany("insert_test", [], { returning: "*" }),
+    [],
+    "should do nothing without rows"
+  );
+
+  await db.insertMany("insert_test", [{ id: 1, name: "updated" }], {
+    onConflict: { target: ["id"], update: ["name"] },
+  });
+  await db.insertMany("insert_test", [{ id: 2, name: "ignored" }], {
+    onConflict: {},
+  });
+  t.deepEqual(
+    await db.column`select name from insert_test where id in (1, 2) order by id`,
+    ["updated", "user 2"],
+    "should handle conflicts"
+  );
+
+  try {
+    await db.insertMany("insert_test", [{ id: 10 }, { id: 11 }, { id: 10 }], {
+      chunkSize: 2,
+    });
+    t.fail("should reject duplicate rows");
+  } catch (err) {
+    t.ok(err instanceof UniqueViolationError, "should throw the chunk's error");
+  }
+  t.equal(
+    await db.value`select count(*)::int from insert_test where id >= 10`,
+    0,
+    "should roll back earlier chunks"
+  );
+
+  try {
+    await db.insertMany("insert_test", rows, { chunkSize: 40000 });
+    t.fail("should reject chunks over the parameter limit");
+  } catch (err) {
+    t.ok(err instanceof RangeError, "should throw RangeError");
+  }
+});
+
+test("copy with parameters", async (t) => {
+  try {
+    await db.copyTo`copy (select ${1}) to stdout`;
+    t.fail("should reject parameters");
+  } catch (err) {
+    t.ok(err instanceof RangeError, "should throw RangeError");
+  }
+});
+
+test("query cancellation", async (t) => {
+  const controller = new AbortController();
+  const conn = db.withOptions({ signal: controller.signal });
+  setTimeout(() => controller.abort(), 100);
+
+  const start = Date.now();
+  try {
+    await conn.query`select pg_sleep(10)`;
+    t.fail("should cancel the query");
+  } catch (err) {
+    t.ok(
+      err instanceof QueryCancelledError,
+      "should throw QueryCancelledError"
+    );
+    t.equal(
+      err.pgError.code,
+      "57014",
+      "should have been cancelled by Postgres"
+    );
+  }
+  t.ok(Date.now() - start < 5000, "should not wait for the query to finish");
+
+  try {
+    await conn.value`select 1`;
+    t.fail("should refuse to start queries after the signal is aborted");
+  } catch (err) {
+    t.ok(
+      err instanceof QueryCancelledError,
+      "should throw QueryCancelledError"
+    );
+  }
+
+  t.equal(await db.value`select 1`, 1, "should leave the pool usable");
+});
+
+test("stream cancellation", async (t) => {
+  const controller = new AbortController();
+  const stream = await db.withOptions({ signal: controller.signal })
+    .stream`select * from generate_series(1, 100000) g`;
+
+  try {
+    for await (const row of stream) {
+      if (row.g === 1) controller.abort();
+    }
+    t.fail("should cancel the stream");
+  } catch (err) {
+    t.ok(
+      err instanceof QueryCancelledError,
+      "should throw QueryCancelledError"
+    );
+    t.match(
+      err.message,
+      /^SQL Error: query was cancelled\n/,
+      "should not say the query hadn't started"
+    );
+  }
+  t.equal(await db.value`select 1`, 1, "should leave the pool usable");
+});
+
+test("query timeout", async (t) => {
+  const conn = db.withOptions({ timeoutMs: 100 });
+
+  try {
+    await conn.query`select pg_sleep(10)`;
+    t.fail("should time out");
+  } catch (err) {
+    t.ok(err instanceof QueryTimeoutError, "should throw QueryTimeoutError");
+    t.equal(err.timeoutMs, 100, "should report the timeout");
+  }
+
+  t.equal(await conn.value`select 1`, 1, "should run fast queries");
+
+  await conn.connection(async (c) => {
+    const before = await c.value`show statement_timeout`;
+    await c.value`select 1`;
+    t.equal(
+      await c.value`show statement_timeout`,
+      before,
+      "should not change the session's statement_timeout"
+    );
+  });
+});
+
+test("query timeout as the query finishes", async (t) => {
+  await db.connection(async (c) => {
+    const conn = c.withOptions({ timeoutMs: 50 });
+    for (let i = 0; i < 10; i++) {
+      try {
+        await conn.query`select pg_sleep(0.05)`;
+      } catch (err) {
+        if (!(err instanceof QueryTimeoutError)) throw err;
+      }
+      t.equal(
+        await c.value`select 1 from pg_sleep(0.1)`,
+        1,
+        "should not cancel the next query on the client"
+      );
+    }
+  });
+});
+
+test("query hooks", async (t) => {
+  const events: string[] = [];
+  const stopObserving = db.use({
+    beforeQuery: ({ sql, params, inTransaction }) =>
+      events.push(`before ${sql} ${JSON.stringify(params)} ${inTransaction}`),
+    afterQuery: ({ sql, rowCount, command, durationMs }) => {
+      events.push(`after ${sql} ${command} ${rowCount}`);
+      t.ok(durationMs >= 0, "should report the duration");
+    },
+    onError: ({ sql, error }) =>
+      events.push(`error ${sql} ${error.pgError?.message}`),
+  });
+
+  try {
+    await db.value`select ${1}::int`;
+    await db.transaction(async (tx) => {
+      await tx.query`select 1 from generate_series(1, 2)`;
+    });
+    await db.connection(async (c) => {
+      await c.query`not a real sql query lol`;
+    });
+  } catch (err) {
+    // Expected.
+  } finally {
+    stopObserving();
+  }
+  await db.value`select 2`;
+
+  t.deepEqual(events, [
+    `before select $1::int [1] false`,
+    `after select $1::int SELECT 1`,
+    `before begin [] true`,
+    `after begin BEGIN null`,
+    `before select 1 from generate_series(1, 2) [] true`,
+    `after select 1 from generate_series(1, 2) SELECT 2`,
+    `before commit [] true`,
+    `after commit COMMIT null`,
+    `before not a real sql query lol [] false`,
+    `error not a real sql query lol syntax error at or near "not"`,
+  ]);
+});
+
+test("query hooks which throw", async (t) => {
+  const errors: string[] = [];
+  const stopThrowing = db.use({
+    afterQuery: () => {
+      throw new Error("broken hook");
+    },
+  });
+  const stopObserving = db.use({
+    onError: ({ sql }) => errors.push(sql),
+  });
+  const warned = new Promise<Error>((resolve) =>
+    process.once("warning", resolve)
+  );
+
+  try {
+    t.equal(
+      await db.transaction((tx) => tx.value`select 1`),
+      1,
+      "should not fail the query or its transaction"
+    );
+  } finally {
+    stopThrowing();
+    stopObserving();
+  }
+  t.deepEqual(errors, [], "should not call onError");
+  t.equal((await warned).message, "broken hook", "should emit a warning");
+});
+
+test("query logger", async (t) => {
+  const lines: string[] = [];
+  const stopLogging = db.use(
+    createQueryLogger({ write: (line) => lines.push(line) })
+  );
+  try {
+    await db.value`
+      select ${"secret"}::text
+    `;
+    await db.query`not a real sql query lol`;
+  } catch (err) {
+    // Expected.
+  } finally {
+    stopLogging();
+  }
+
+  const [ok, failed] = lines.map((line) => JSON.parse(line));
+  t.equal(lines.length, 2, "should log every query");
+  t.equal(ok.level, "info");
+  t.equal(ok.sql, "select $1::text", "should normalize whitespace");
+  t.deepEqual(ok.params, ["[REDACTED]"], "should redact parameters");
+  t.equal(ok.rowCount, 1);
+  t.equal(typeof ok.waitMs, "number", "should report pool wait time");
+  t.equal(failed.level, "error");
+  t.equal(failed.code, "42601", "should report the SQLSTATE");
+
+  lines.length = 0;
+  const stopLoggingSlow = db.use(
+    createQueryLogger({
+      slowQueryMs: 50,
+      redact: (params) => params.map((p) => (p === "secret" ? "***" : p)),
+      write: (line) => lines.push(line),
+    })
+  );
+  try {
+    await db.value`select 1`;
+    await db.query`select pg_sleep(0.1), ${"secret"}::text, ${2}::int`;
+  } finally {
+    stopLoggingSlow();
+  }
+  t.equal(lines.length, 1, "should only log slow queries");
+  t.equal(JSON.parse(lines[0]).level, "warn");
+  t.deepEqual(
+    JSON.parse(lines[0]).params,
+    ["***", 2],
+    "should use the redaction callback"
+  );
+});
+
+test("health and stats", async (t) => {
+  const health = await db.health();
+  t.equal(typeof health.serverVersion, "string", "should report the version");
+  t.equal(
+    health.inRecovery,
+    false,
+    "should report the primary isn't a standby"
+  );
+  t.ok(health.latencyMs > 0, "should report the latency");
+
+  const before = db.stats();
+  try {
+    await db.query`select 1 / 0`;
+  } catch (e) {
+    // Expected.
+  }
+  const after = db.stats();
+  t.equal(after.queries - before.queries, 1, "should count queries");
+  t.equal(after.errors - before.errors, 1, "should count errors");
+  t.equal(
+    (after.errorsByClass["22"] ?? 0) - (before.errorsByClass["22"] ?? 0),
+    1,
+    "should count errors by SQLSTATE class"
+  );
+  t.equal(after.checkouts - before.checkouts, 1, "should count checkouts");
+  t.ok(after.checkoutWaitMs >= before.checkoutWaitMs);
+  t.ok(after.total >= after.idle, "should report the pool's clients");
+
+  const collector = new StatsCollector();
+  const reset = Object.assign(new Error("read ECONNRESET"), {
+    code: "ECONNRESET",
+  });
+  collector.onError({
+    sql: "select 1",
+    params: [],
+    inTransaction: false,
+    waitMs: 0,
+    durationMs: 0,
+    error: new SqlError({ sql: "select 1", pgError: reset }),
+  });
+  const stats = collector.stats(db.pool);
+  t.deepEqual(stats.errorsByClass, {}, "should only count SQLSTATE classes");
+  t.equal(stats.otherErrors, 1, "should count other errors separately");
+});
+
+test("advisory locks", async (t) => {
+  const result = await db.withAdvisoryLock("test lock", async (conn) => {
+    t.equal(
+      await db.tryWithAdvisoryLock("test lock", async () => "ran"),
+      undefined,
+      "shouldn't run while another session holds the lock"
+    );
+    t.equal(
+      await conn.value`select count(*)::int from pg_locks where locktype = 'advisory' and pid = pg_backend_pid()`,
+      1,
+      "should run on the connection holding the lock"
+    );
+    return "locked";
+  });
+  t.equal(result, "locked", "should resolve to the result of the block");
+  t.equal(
+    await db.tryWithAdvisoryLock("test lock", async () => "ran"),
+    "ran",
+    "should release the lock after the block"
+  );
+
+  try {
+    await db.withAdvisoryLock([1, 2], async () => {
+      throw new Error("oops");
+    });
+    t.fail("should throw");
+  } catch (err) {
+    t.equal(err.message, "oops", "should pass on errors from the block");
+  }
+  t.equal(
+    await db.tryWithAdvisoryLock([1, 2], async () => "ran"),
+    "ran",
+    "should release the lock after an error"
+  );
+
+  await db.transaction(async (tx) => {
+    await tx.withAdvisoryLock("test xact lock", async () => undefined);
+    t.equal(
+      await db.tryWithAdvisoryLock("test xact lock", async () => "ran"),
+      undefined,
+      "should hold transaction locks until the transaction ends"
+    );
+  });
+  t.equal(
+    await db.tryWithAdvisoryLock("test xact lock", async () => "ran"),
+    "ran",
+    "should release transaction locks when the transaction ends"
+  );
+
+  try {
+    await db.withAdvisoryLock([1, 2.5], async () => undefined);
+    t.fail("should throw");
+  } catch (err) {
+    t.ok(err instanceof RangeError, "should refuse keys which aren't int4s");
+  }
+});
+
+test("Migrator", async (t) => {
+  await db.query`drop table if exists test_migrations, migrated_a, migrated_b`;
+  const directory = await fs.mkdtemp(join(tmpdir(), "migrations-"));
+  const createA =
+    "create table migrated_a (id int);\ninsert into migrated_a values (1);";
+  await fs.writeFile(join(directory, "1_create_a.sql"), createA);
+  await fs.writeFile(
+    join(directory, "1_create_a.down.sql"),
+    "drop table migrated_a"
+  );
+  await fs.writeFile(
+    join(directory, "2_create_b.js"),
+    `exports.up = (conn) => conn.query({ text: "create table migrated_b (id int)", values: [] });
+exports.down = (conn) => conn.query({ text: "drop table migrated_b", values: [] });`
+  );
+  await fs.writeFile(join(directory, "README.md"), "not a migration");
+  const migrator = new Migrator(db, { directory, table: "test_migrations" });
+
+  t.deepEqual(
+    (await migrator.status()).map((m) => m.state),
+    ["pending", "pending"],
+    "should report pending migrations"
+  );
+  t.deepEqual(
+    await migrator.up({ dryRun: true }),
+    [
+      { version: "1", name: "create_a" },
+      { version: "2", name: "create_b" },
+    ],
+    "should report what it would do"
+  );
+  t.deepEqual(
+    await migrator.up({ to: "1" }),
+    [{ version: "1", name: "create_a" }],
+    "should stop at the given version"
+  );
+  t.deepEqual(await db.column`select id from migrated_a`, [1]);
+
+  const [first, second] = await Promise.all([migrator.up(), migrator.up()]);
+  t.equal(
+    first.length + second.length,
+    1,
+    "should apply each migration once, even when run concurrently"
+  );
+  t.deepEqual(
+    (await migrator.status()).map((m) => m.state),
+    ["applied", "applied"],
+    "should report applied migrations"
+  );
+
+  await fs.writeFile(
+    join(directory, "1_create_a.sql"),
+    createA + "\n-- edited"
+  );
+  t.equal((await migrator.status())[0].state, "changed");
+  try {
+    await migrator.up();
+    t.fail("should refuse to migrate after a migration was edited");
+  } catch (err) {
+    t.ok(err instanceof MigrationError, "should throw MigrationError");
+    t.equal(err.version, "1", "should report the version");
+  }
+  await fs.writeFile(join(directory, "1_create_a.sql"), createA);
+
+  t.deepEqual(
+    await migrator.down({ to: null }),
+    [
+      { version: "2", name: "create_b" },
+      { version: "1", name: "create_a" },
+    ],
+    "should roll back newest first"
+  );
+  t.equal(
+    await db.value`select to_regclass('migrated_a') is null and to_regclass('migrated_b') is null`,
+    true,
+    "should run the down migrations"
+  );
+  t.deepEqual(await db.column`select version from test_migrations`, []);
+});
+
+test("Migrator file names", async (t) => {
+  const directory = await fs.mkdtemp(join(tmpdir(), "migrations-"));
+  const source = "exports.up = async () => undefined;";
+  await fs.writeFile(join(directory, "1_compiled.ts"), source);
+  await fs.writeFile(join(directory, "1_compiled.js"), source);
+  const migrator = new Migrator(db, { directory, table: "test_file_names" });
+
+  t.deepEqual(
+    (await migrator.status()).map(({ version, name }) => `${version}_${name}`),
+    ["1_compiled"],
+    "should use one of a .js and .ts file"
+  );
+
+  await fs.writeFile(join(directory, "1_compiled.down.js"), source);
+  try {
+    await migrator.status();
+    t.fail("should reject .down.js files");
+  } catch (err) {
+    t.ok(err instanceof MigrationError, "should throw MigrationError");
+    t.match(err.message, /down export/, "should explain how to roll back");
+  }
+});
+
+test("Migrator with a mixed-case table name", async (t) => {
+  await db.query`drop table if exists "TestMigrations", migrated_c`;
+  const directory = await fs.mkdtemp(join(tmpdir(), "migrations-"));
+  await fs.writeFile(
+    join(directory, "1_create_c.sql"),
+    "create table migrated_c (id int)"
+  );
+  const migrator = new Migrator(db, { directory, table: "TestMigrations" });
+
+  t.equal((await migrator.up()).length, 1, "should apply the migration");
+  t.deepEqual(
+    (await migrator.status()).map((m) => m.state),
+    ["applied"],
+    "should find the applied migration"
+  );
+  t.deepEqual(await migrator.up(), [], "should not apply it again");
+
+  await db.query`drop table "TestMigrations", migrated_c`;
+});
+
+test("listen and notify", async (t) => {
+  const received: unknown[] = [];
+  const stopListening = await db.listen<{ n: number }>("test_channel", (p) =>
+    received.push(p)
+  );
+
+  await db.notify("test_channel", { n: 1 });
+  await db.transaction(async (tx) => {
+    await tx.notify("test_channel", { n: 2 });
+  });
+  try {
+    await db.transaction(async (tx) => {
+      await tx.notify("test_channel", { n: 3 });
+      throw new Error("rolling back");
+    });
+  } catch (e) {
+    // Expected.
+  }
+  await db.notify("test_channel", { n: 4 });
+  await waitFor(() => received.length >= 3);
+  t.deepEqual(
+    received,
+    [{ n: 1 }, { n: 2 }, { n: 4 }],
+    "should receive committed notifications"
+  );
+
+  await stopListening();
+  await db.notify("test_channel", { n: 5 });
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  t.equal(received.length, 3, "should stop listening");
+});
+
+test("listen on a channel concurrently", async (t) => {
+  const received: string[] = [];
+  const stops = await Promise.all([
+    db.listen("test_concurrent", () => received.push("a")),
+    db.listen("test_concurrent", () => received.push("b")),
+  ]);
+  try {
+    await db.notify("test_concurrent", "hello");
+    await waitFor(() => received.length >= 2);
+    t.deepEqual(received.sort(), ["a", "b"], "should call both handlers");
+  } finally {
+    await Promise.all(stops.map((stop) => stop()));
+  }
+});
+
+test("listen reconnects", async (t) => {
+  const received: unknown[] = [];
+  const stopListening = await db.listen("test_reconnect", (p) =>
+    received.push(p)
+  );
+  try {
+    await db.query`
+      select pg_terminate_backend(pid)
+      from pg_stat_activity
+      where query ilike 'listen%test_reconnect%'
+    `;
+
+    // Keep notifying until the listener is back.
+    const deadline = Date.now() + 5000;
+    while (received.length === 0 && Date.now() < deadline) {
+      await db.notify("test_reconnect", "hello");
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    t.equal(received[0], "hello", "should listen again after reconnecting");
+  } finally {
+    await stopListening();
+  }
+});
+
 test("nested transaction", async (t) => {
   await db.transaction(async (conn) => {
     await conn.query`create temporary table test_nested (id int)`;
@@ -342,6 +1548,129 @@ test("nested transaction", async (t) => {
   });
 });
 
+test("transaction options", async (t) => {
+  await db.transaction(
+    { isolation: "serializable", readOnly: true, deferrable: true },
+    async (tx) => {
+      t.equal(await tx.value`show transaction_isolation`, "serializable");
+      t.equal(await tx.value`show transaction_read_only`, "on");
+      t.equal(await tx.value`show transaction_deferrable`, "on");
+    }
+  );
+
+  await db.transaction({ isolation: "repeatable read" }, async (tx) => {
+    t.equal(await tx.value`show transaction_isolation`, "repeatable read");
+    t.equal(await tx.value`show transaction_read_only`, "off");
+  });
+});
+
+test("transaction options in nested transaction", async (t) => {
+  await db.transaction(async (tx) => {
+    try {
+      await tx.transaction({ readOnly: true }, async () => {
+        t.fail("should not run the nested block");
+      });
+      t.fail("should reject options for savepoints");
+    } catch (err) {
+      t.ok(err instanceof RangeError, "should throw RangeError");
+    }
+    t.equal(await tx.value`select 1`, 1, "should leave the transaction usable");
+  });
+});
+
+test("transaction retry", async (t) => {
+  const attempts: number[] = [];
+  const result = await db.transaction(
+    { retry: { baseDelayMs: 1 } },
+    async (tx, attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) {
+        await tx.query`DO language plpgsql $$ BEGIN RAISE EXCEPTION 'conflict' USING ERRCODE = 'serialization_failure'; END $$`;
+      }
+      return "done";
+    }
+  );
+  t.equal(result, "done", "should return the result of the last attempt");
+  t.deepEqual(attempts, [1, 2, 3], "should pass the attempt number");
+
+  attempts.length = 0;
+  try {
+    await db.transaction(
+      { retry: { maxAttempts: 2, baseDelayMs: 1 } },
+      async (tx, attempt) => {
+        attempts.push(attempt);
+        await tx.query`DO language plpgsql $$ BEGIN RAISE EXCEPTION 'deadlock' USING ERRCODE = 'deadlock_detected'; END $$`;
+      }
+    );
+    t.fail("should give up after maxAttempts");
+  } catch (err) {
+    t.equal(err.pgError.code, "40P01", "should throw the last error");
+  }
+  t.deepEqual(attempts, [1, 2], "should stop after maxAttempts");
+
+  attempts.length = 0;
+  try {
+    await db.transaction({ retry: {} }, async (tx, attempt) => {
+      attempts.push(attempt);
+      await tx.query`not a real sql query lol`;
+    });
+    t.fail("should throw");
+  } catch (err) {
+    t.deepEqual(attempts, [1], "should not retry other errors");
+  }
+});
+
+test("transaction retry in nested transaction", async (t) => {
+  await db.transaction(async (tx) => {
+    try {
+      await tx.transaction({ retry: {} }, async () => undefined);
+      t.fail("should reject retries for savepoints");
+    } catch (err) {
+      t.ok(err instanceof RangeError, "should throw RangeError");
+    }
+  });
+});
+
+test("connection retry", async (t) => {
+  await db.query`drop sequence if exists test_connection_retry`;
+  await db.query`create sequence test_connection_retry`;
+  // Every other run of this query loses its connection.
+  const flaky = sql`
+    select case
+      when nextval('test_connection_retry') % 2 = 1
+      then pg_terminate_backend(pg_backend_pid())::text
+      else 'recovered'
+    end
+  `;
+  const retrying = db.withOptions({ connectionRetry: { baseDelayMs: 1 } });
+
+  try {
+    try {
+      await db.value(flaky);
+      t.fail("should fail without a retry policy");
+    } catch (err) {
+      t.ok(err instanceof SqlError, "should fail without a retry policy");
+    }
+    t.equal(await db.value`select 1`, 1, "should evict the broken client");
+
+    await db.value`select nextval('test_connection_retry')`;
+    t.equal(
+      await retrying.value(flaky),
+      "recovered",
+      "should retry on a new connection"
+    );
+
+    try {
+      await retrying.transaction((tx) => tx.value(flaky));
+      t.fail("should not retry inside a transaction");
+    } catch (err) {
+      t.pass("should not retry inside a transaction");
+    }
+  } finally {
+    await db.query`drop sequence test_connection_retry`;
+  }
+});
+
 test("failed rollback", async (t) => {
   const connectionsBefore = countConnections(db.pool);
   try {
@@ -381,6 +1710,183 @@ test("failed rollback", async (t) => {
   );
 });
 
+test("graceful shutdown", async (t) => {
+  const draining = SimplePostgres.fromUrl(
+    "postgres://postgres@db:5432/postgres"
+  );
+  const inFlight = draining.transaction(async (tx) => {
+    await tx.query`select pg_sleep(0.2)`;
+    return tx.value`select 'finished'`;
+  });
+  const shutdown = draining.shutdown({ timeoutMs: 5000 });
+  try {
+    await draining.query`select 1`;
+    t.fail("should refuse new queries");
+  } catch (err) {
+    t.ok(err instanceof ShuttingDownError, "should refuse new queries");
+  }
+  t.equal(await inFlight, "finished", "should let work in progress finish");
+  await shutdown;
+  t.equal(draining.pool.totalCount, 0, "should end the pool");
+
+  const stuck = SimplePostgres.fromUrl("postgres://postgres@db:5432/postgres");
+  const sleeping = stuck.query`select pg_sleep(30)`.then(
+    () => null,
+    (err) => err
+  );
+  await waitFor(() => stuck.pool.totalCount === 1);
+  const start = Date.now();
+  await stuck.shutdown({ timeoutMs: 100 });
+  t.ok(Date.now() - start < 5000, "should stop waiting at the deadline");
+  t.ok((await sleeping) instanceof SqlError, "should cancel work in progress");
+});
+
+test("ssl options in urls", async (t) => {
+  const dir = await fs.mkdtemp(join(tmpdir(), "simple-postgres-ssl-"));
+  const ca = join(dir, "ca.pem");
+  await fs.writeFile(ca, "test ca");
+  const url = "postgres://postgres@db:5432/postgres";
+
+  t.equal(getConfigFromUrl(url).ssl, false, "should default to no TLS");
+  t.equal(
+    getConfigFromUrl(`${url}?sslmode=disable`).ssl,
+    false,
+    "should not use TLS for disable"
+  );
+
+  const preferred: any = getConfigFromUrl(`${url}?sslmode=prefer`).ssl;
+  t.equal(preferred.rejectUnauthorized, false, "should use TLS for prefer");
+
+  const required: any = getConfigFromUrl(`${url}?sslmode=require`).ssl;
+  t.equal(required.rejectUnauthorized, false, "should not verify for require");
+
+  const noVerify: any = getConfigFromUrl(
+    `${url}?sslmode=no-verify&sslrootcert=${ca}`
+  ).ssl;
+  t.equal(noVerify.rejectUnauthorized, false, "should not verify no-verify");
+
+  const verifyCa: any = getConfigFromUrl(
+    `${url}?sslmode=verify-ca&sslrootcert=${ca}&sslpassword=secret`
+  ).ssl;
+  t.equal(verifyCa.ca, "test ca", "should read sslrootcert");
+  t.equal(verifyCa.passphrase, "secret", "should pass sslpassword");
+  t.notEqual(verifyCa.rejectUnauthorized, false, "should verify the CA");
+  t.equal(
+    verifyCa.checkServerIdentity("other", { subject: { CN: "db" } }),
+    undefined,
+    "should not check the host for verify-ca"
+  );
+
+  const verifyFull: any = getConfigFromUrl(`${url}?ssl=true`).ssl;
+  t.ok(
+    verifyFull.checkServerIdentity("db", { subject: { CN: "other" } }),
+    "should check the host for verify-full"
+  );
+  t.equal(
+    verifyFull.checkServerIdentity("db", { subject: { CN: "db" } }),
+    undefined,
+    "should accept a certificate for the host"
+  );
+
+  t.throws(
+    () => getConfigFromUrl(`${url}?sslmode=sometimes`),
+    RangeError,
+    "should reject unknown modes"
+  );
+  t.throws(
+    () => getConfigFromUrl(`${url}?ssl=require`),
+    RangeError,
+    "should reject unknown ssl values"
+  );
+  await fs.rm(dir, { recursive: true });
+});
+
+test("libpq environment variables", async (t) => {
+  const dir = await fs.mkdtemp(join(tmpdir(), "simple-postgres-env-"));
+  const serviceFile = join(dir, "pg_service.conf");
+  await fs.writeFile(
+    serviceFile,
+    "[other]\nhost=elsewhere\n\n# Reports\n[reporting]\nhost=db\ndbname=reports\n"
+  );
+  const passFile = join(dir, "pgpass");
+  await fs.writeFile(
+    passFile,
+    "# host:port:database:user:password\nelsewhere:*:*:*:wrong\ndb:5432:reports:app:pass\\:word\n",
+    { mode: 0o600 }
+  );
+
+  t.deepEqual(
+    getConfigFromEnvironment({
+      DATABASE_URL: "postgres://postgres@db:5432/postgres",
+      PGHOST: "elsewhere",
+    }),
+    getConfigFromUrl("postgres://postgres@db:5432/postgres"),
+    "should prefer DATABASE_URL"
+  );
+
+  const config = getConfigFromEnvironment({
+    PGHOST: "elsewhere",
+    PGUSER: "app",
+    PGSERVICE: "reporting",
+    PGSERVICEFILE: serviceFile,
+    PGSYSCONFDIR: dir,
+    PGPASSFILE: passFile,
+    PGAPPNAME: "reports",
+  });
+  t.equal(config.host, "db", "should prefer the service's settings");
+  t.equal(config.database, "reports", "should read the service file");
+  t.equal(config.user, "app", "should read variables");
+  t.equal(config.application_name, "reports", "should read PGAPPNAME");
+  t.equal(config.password, "pass:word", "should read .pgpass");
+  t.equal(config.ssl, false, "should default to no TLS");
+
+  const withPassword = getConfigFromEnvironment({
+    PGHOST: "db",
+    PGPORT: "6432",
+    PGPASSWORD: "secret",
+    PGSSLMODE: "require",
+    PGPASSFILE: passFile,
+  });
+  t.equal(withPassword.port, 6432, "should read PGPORT");
+  t.equal(withPassword.password, "secret", "should prefer PGPASSWORD");
+  t.ok(withPassword.ssl, "should read PGSSLMODE");
+
+  await fs.chmod(passFile, 0o644);
+  t.equal(
+    getConfigFromEnvironment({
+      PGHOST: "db",
+      PGUSER: "app",
+      PGDATABASE: "reports",
+      PGPASSFILE: passFile,
+    }).password,
+    undefined,
+    "should ignore a .pgpass which others can read"
+  );
+
+  t.throws(
+    () => getConfigFromEnvironment({ PGSERVICE: "missing", PGSYSCONFDIR: dir }),
+    /Cannot find service "missing"/,
+    "should reject unknown services"
+  );
+  const local = getConfigFromEnvironment({
+    PGUSER: "app",
+    PGDATABASE: "reports",
+    PGPASSWORD: "secret",
+  });
+  t.ok(
+    local.host === "localhost" || local.host?.startsWith("/"),
+    "should default to a local server without PGHOST"
+  );
+  t.equal(local.database, "reports", "should read PGDATABASE");
+
+  t.throws(
+    () => getConfigFromEnvironment({}),
+    /neither DATABASE_URL nor any of PGHOST, .*PGSERVICE is set/,
+    "should explain which sources were tried"
+  );
+  await fs.rm(dir, { recursive: true });
+});
+
 test("end shuts down the pool", async (t) => {
   await db.end();
 